@@ -0,0 +1,94 @@
+import Shell from 'gi://Shell';
+import St from 'gi://St';
+import { InjectionManager } from 'resource:///org/gnome/shell/extensions/extension.js';
+import { AppMenu } from 'resource:///org/gnome/shell/ui/appMenu.js';
+import * as PopupMenu from 'resource:///org/gnome/shell/ui/popupMenu.js';
+
+export interface AppMenuEntry {
+    label: string;
+    favorite: boolean;
+    activate: () => void;
+}
+
+/**
+ * Adds a "Workspaces" section to the right-click menu of app icons in the Dash and app grid.
+ *
+ * `entriesFor` is asked every time a menu opens; returning null leaves that app's menu alone.
+ */
+export class AppMenuWorkspaces {
+    private _entriesFor: (app: Shell.App) => AppMenuEntry[] | null;
+    private _injections: InjectionManager | null = null;
+    private _sections: Map<AppMenu, PopupMenu.PopupMenuSection> = new Map();
+
+    constructor(entriesFor: (app: Shell.App) => AppMenuEntry[] | null) {
+        this._entriesFor = entriesFor;
+    }
+
+    enable() {
+        if (this._injections) return;
+
+        // AppMenu has no extension point, so wrap open() and fill in our section just before
+        const updateSection = (menu: AppMenu) => this._updateSection(menu);
+        this._injections = new InjectionManager();
+        this._injections.overrideMethod(
+            AppMenu.prototype,
+            'open',
+            originalOpen =>
+                function (this: AppMenu, animate: boolean) {
+                    try {
+                        updateSection(this);
+                    } catch (error) {
+                        console.error(error as object, 'Failed to add workspaces to the app menu');
+                    }
+                    originalOpen.call(this, animate);
+                }
+        );
+    }
+
+    disable() {
+        this._injections?.clear();
+        this._injections = null;
+
+        this._sections.forEach(section => section.destroy());
+        this._sections.clear();
+    }
+
+    private _updateSection(menu: AppMenu) {
+        const app = (menu as any)._app as Shell.App | null;
+        const entries = app ? this._entriesFor(app) : null;
+
+        let section = this._sections.get(menu);
+        if (!entries || entries.length === 0) {
+            section?.destroy();
+            return;
+        }
+
+        if (!section) {
+            section = new PopupMenu.PopupMenuSection();
+            const created = section;
+            // PopupMenuSection's signals are not in the typings
+            (created as any).connect('destroy', () => {
+                if (this._sections.get(menu) === created) {
+                    this._sections.delete(menu);
+                }
+            });
+            // Above the app's own actions, like launchers that show recent documents
+            menu.addMenuItem(created, 0);
+            this._sections.set(menu, created);
+        }
+
+        section.removeAll();
+        section.addMenuItem(new PopupMenu.PopupSeparatorMenuItem('Workspaces'));
+        for (const entry of entries) {
+            const item = new PopupMenu.PopupMenuItem(entry.label);
+            if (entry.favorite) {
+                item.add_child(
+                    new St.Icon({ icon_name: 'starred-symbolic', style_class: 'popup-menu-icon' })
+                );
+            }
+            item.connect('activate', () => entry.activate());
+            section.addMenuItem(item);
+        }
+        section.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
+    }
+}
@@ -0,0 +1,442 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+/**
+ * A copy of an editor's workspaceStorage made before "Clear Workspaces" emptied it.
+ *
+ * Backups live under `$XDG_DATA_HOME/vscode-workspaces/backups/<timestamp>-<n>/`, each with a
+ * `manifest.json` describing it and the copied entries in `workspaceStorage/`.
+ */
+export interface WorkspaceBackup {
+    path: string;
+    storagePath: string; // workspaceStorage directory it was taken from
+    editor: string;
+    createdAt: number; // Unix time in seconds
+    size: number; // Bytes
+    entryCount: number;
+}
+
+const BACKUP_ROOT = GLib.build_filenamev([
+    GLib.get_user_data_dir(),
+    'vscode-workspaces',
+    'backups',
+]);
+const MANIFEST_NAME = 'manifest.json';
+const CONTENTS_NAME = 'workspaceStorage';
+const MANIFEST_VERSION = 1;
+const COPY_ATTRIBUTES = 'standard::type,standard::size';
+const CHILDREN_PER_BATCH = 50;
+
+/**
+ * Copies `storagePath` into a new timestamped backup and passes it to `callback`, or null and
+ * the error if it failed.
+ *
+ * The copy runs asynchronously: workspace storage holds large state databases, and this is
+ * called from the shell.
+ */
+export function createBackup(
+    storagePath: string,
+    editor: string,
+    callback: (backup: WorkspaceBackup | null, error: Error | null) => void
+) {
+    const now = GLib.DateTime.new_now_local();
+    const stamp = now.format('%Y%m%d-%H%M%S') ?? `${now.to_unix()}`;
+
+    // Two backups in the same second get a counter instead of overwriting each other
+    let backupDir = Gio.File.new_for_path(GLib.build_filenamev([BACKUP_ROOT, stamp]));
+    for (let i = 1; backupDir.query_exists(null); i++) {
+        backupDir = Gio.File.new_for_path(GLib.build_filenamev([BACKUP_ROOT, `${stamp}-${i}`]));
+    }
+    try {
+        backupDir.make_directory_with_parents(null);
+    } catch (error) {
+        callback(null, error as Error);
+        return;
+    }
+
+    // A partial copy has no manifest, so it would never be listed or pruned
+    const fail = (error: Error) => {
+        deleteRecursively(backupDir, cleanupError => {
+            if (cleanupError) {
+                console.error(
+                    cleanupError as object,
+                    `Failed to remove incomplete backup ${backupDir.get_path()}`
+                );
+            }
+            callback(null, error);
+        });
+    };
+
+    const source = Gio.File.new_for_path(storagePath);
+    copyRecursively(source, backupDir.get_child(CONTENTS_NAME), (error, size, entryCount) => {
+        if (error) {
+            fail(error);
+            return;
+        }
+
+        const backup: WorkspaceBackup = {
+            path: backupDir.get_path()!,
+            storagePath,
+            editor,
+            createdAt: now.to_unix(),
+            size,
+            entryCount,
+        };
+        const manifest = JSON.stringify(
+            { version: MANIFEST_VERSION, ...backup, path: undefined },
+            null,
+            2
+        );
+        try {
+            backupDir
+                .get_child(MANIFEST_NAME)
+                .replace_contents(
+                    new TextEncoder().encode(manifest),
+                    null,
+                    false,
+                    Gio.FileCreateFlags.REPLACE_DESTINATION,
+                    null
+                );
+        } catch (manifestError) {
+            fail(manifestError as Error);
+            return;
+        }
+        callback(backup, null);
+    });
+}
+
+/**
+ * Lists backups, newest first. Pass a storage path to only list backups of that directory.
+ */
+export function listBackups(storagePath?: string): WorkspaceBackup[] {
+    const root = Gio.File.new_for_path(BACKUP_ROOT);
+    if (!root.query_exists(null)) return [];
+
+    const backups: WorkspaceBackup[] = [];
+    const enumerator = root.enumerate_children(
+        'standard::name,standard::type',
+        Gio.FileQueryInfoFlags.NONE,
+        null
+    );
+    try {
+        let info: Gio.FileInfo | null;
+        while ((info = enumerator.next_file(null)) !== null) {
+            if (info.get_file_type() !== Gio.FileType.DIRECTORY) continue;
+
+            const backupDir = enumerator.get_child(info);
+            const backup = readManifest(backupDir);
+            if (backup && (!storagePath || backup.storagePath === storagePath)) {
+                backups.push(backup);
+            }
+        }
+    } finally {
+        enumerator.close(null);
+    }
+
+    return backups.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Deletes the oldest backups of `storagePath` so that at most `keep` remain, then calls
+ * `callback` with the ones it deleted.
+ */
+export function pruneBackups(
+    storagePath: string,
+    keep: number,
+    callback: (expired: WorkspaceBackup[], error: Error | null) => void
+) {
+    let expired: WorkspaceBackup[];
+    try {
+        expired = listBackups(storagePath).slice(Math.max(keep, 0));
+    } catch (error) {
+        callback([], error as Error);
+        return;
+    }
+
+    const deleteNext = (index: number) => {
+        if (index === expired.length) {
+            callback(expired, null);
+            return;
+        }
+        deleteRecursively(Gio.File.new_for_path(expired[index].path), error => {
+            if (error) {
+                callback(expired.slice(0, index), error);
+                return;
+            }
+            deleteNext(index + 1);
+        });
+    };
+    deleteNext(0);
+}
+
+/**
+ * Swaps `backup` back in: the current contents are backed up first, then replaced, and backups
+ * beyond the newest `keep` are deleted. Calls `callback` with null once restored.
+ */
+export function restoreBackup(
+    backup: WorkspaceBackup,
+    editor: string,
+    keep: number,
+    callback: (error: Error | null) => void
+) {
+    const storage = Gio.File.new_for_path(backup.storagePath);
+
+    const restore = () => {
+        copyRecursively(
+            Gio.File.new_for_path(backup.path).get_child(CONTENTS_NAME),
+            storage,
+            error => {
+                // Only now: the backup being restored may be one of the oldest
+                pruneBackups(backup.storagePath, keep, (_expired, pruneError) => {
+                    if (pruneError) {
+                        console.error(
+                            pruneError as object,
+                            `Failed to prune backups of ${backup.storagePath}`
+                        );
+                    }
+                    callback(error);
+                });
+            }
+        );
+    };
+
+    if (!storage.query_exists(null)) {
+        restore();
+        return;
+    }
+
+    createBackup(backup.storagePath, editor, (previous, error) => {
+        // Never replace contents that could not be backed up
+        if (!previous) {
+            callback(error);
+            return;
+        }
+        deleteRecursively(storage, deleteError => {
+            if (deleteError) {
+                callback(deleteError);
+                return;
+            }
+            restore();
+        });
+    });
+}
+
+/**
+ * Deletes a file, or a directory and everything below it, asynchronously. Calls `callback` with
+ * null once it is gone.
+ */
+export function deleteRecursively(file: Gio.File, callback: (error: Error | null) => void) {
+    const deleteFile = () => {
+        file.delete_async(GLib.PRIORITY_LOW, null, (_file, res) => {
+            try {
+                file.delete_finish(res);
+            } catch (error) {
+                callback(error as Error);
+                return;
+            }
+            callback(null);
+        });
+    };
+
+    file.query_info_async(
+        'standard::type',
+        Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+        GLib.PRIORITY_LOW,
+        null,
+        (_file, infoRes) => {
+            let info: Gio.FileInfo;
+            try {
+                info = file.query_info_finish(infoRes);
+            } catch (error) {
+                callback(error as Error);
+                return;
+            }
+
+            if (info.get_file_type() !== Gio.FileType.DIRECTORY) {
+                deleteFile();
+                return;
+            }
+
+            listChildren(file, (listError, names) => {
+                if (listError) {
+                    callback(listError);
+                    return;
+                }
+
+                // Children first, one at a time, and the directory once it is empty
+                const deleteNext = (index: number) => {
+                    if (index === names.length) {
+                        deleteFile();
+                        return;
+                    }
+                    deleteRecursively(file.get_child(names[index]), error => {
+                        if (error) {
+                            callback(error);
+                            return;
+                        }
+                        deleteNext(index + 1);
+                    });
+                };
+                deleteNext(0);
+            });
+        }
+    );
+}
+
+/**
+ * Copies `source` to `destination` asynchronously, recursing into directories (Gio.File.copy
+ * does not). Calls `callback` with the number of bytes copied and of top-level entries.
+ */
+function copyRecursively(
+    source: Gio.File,
+    destination: Gio.File,
+    callback: (error: Error | null, size: number, entries: number) => void
+) {
+    source.query_info_async(
+        COPY_ATTRIBUTES,
+        Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+        GLib.PRIORITY_LOW,
+        null,
+        (_source, infoRes) => {
+            let info: Gio.FileInfo;
+            try {
+                info = source.query_info_finish(infoRes);
+            } catch (error) {
+                callback(error as Error, 0, 0);
+                return;
+            }
+
+            if (info.get_file_type() !== Gio.FileType.DIRECTORY) {
+                const flags = Gio.FileCopyFlags.OVERWRITE | Gio.FileCopyFlags.NOFOLLOW_SYMLINKS;
+                // The typings lack the callback overloads of copy_async
+                (source as any).copy_async(
+                    destination,
+                    flags,
+                    GLib.PRIORITY_LOW,
+                    null,
+                    null,
+                    (_file: Gio.File, copyRes: Gio.AsyncResult) => {
+                        try {
+                            source.copy_finish(copyRes);
+                        } catch (error) {
+                            callback(error as Error, 0, 0);
+                            return;
+                        }
+                        callback(null, info.get_size(), 1);
+                    }
+                );
+                return;
+            }
+
+            listChildren(source, (listError, names) => {
+                if (listError) {
+                    callback(listError, 0, 0);
+                    return;
+                }
+                try {
+                    if (!destination.query_exists(null)) {
+                        destination.make_directory_with_parents(null);
+                    }
+                } catch (error) {
+                    callback(error as Error, 0, 0);
+                    return;
+                }
+
+                // One entry at a time, so a large directory does not open every file at once
+                let size = 0;
+                const copyNext = (index: number) => {
+                    if (index === names.length) {
+                        callback(null, size, names.length);
+                        return;
+                    }
+                    copyRecursively(
+                        source.get_child(names[index]),
+                        destination.get_child(names[index]),
+                        (error, childSize) => {
+                            if (error) {
+                                callback(error, 0, 0);
+                                return;
+                            }
+                            size += childSize;
+                            copyNext(index + 1);
+                        }
+                    );
+                };
+                copyNext(0);
+            });
+        }
+    );
+}
+
+/**
+ * Reads the names of the entries in `directory` asynchronously, a batch at a time.
+ */
+function listChildren(
+    directory: Gio.File,
+    callback: (error: Error | null, names: string[]) => void
+) {
+    directory.enumerate_children_async(
+        'standard::name',
+        Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+        GLib.PRIORITY_LOW,
+        null,
+        (_directory, res) => {
+            let enumerator: Gio.FileEnumerator;
+            try {
+                enumerator = directory.enumerate_children_finish(res);
+            } catch (error) {
+                callback(error as Error, []);
+                return;
+            }
+
+            const names: string[] = [];
+            const nextBatch = () => {
+                enumerator.next_files_async(
+                    CHILDREN_PER_BATCH,
+                    GLib.PRIORITY_LOW,
+                    null,
+                    (_enumerator, batchRes) => {
+                        let infos: Gio.FileInfo[];
+                        try {
+                            infos = enumerator.next_files_finish(batchRes);
+                        } catch (error) {
+                            enumerator.close(null);
+                            callback(error as Error, []);
+                            return;
+                        }
+
+                        if (infos.length > 0) {
+                            names.push(...infos.map(info => info.get_name()));
+                            nextBatch();
+                        } else {
+                            enumerator.close(null);
+                            callback(null, names);
+                        }
+                    }
+                );
+            };
+            nextBatch();
+        }
+    );
+}
+
+function readManifest(backupDir: Gio.File): WorkspaceBackup | null {
+    try {
+        const [, contents] = backupDir.get_child(MANIFEST_NAME).load_contents(null);
+        const manifest = JSON.parse(new TextDecoder().decode(contents));
+        if (manifest.version !== MANIFEST_VERSION || typeof manifest.storagePath !== 'string') {
+            return null;
+        }
+        return {
+            path: backupDir.get_path()!,
+            storagePath: manifest.storagePath,
+            editor: manifest.editor ?? '',
+            createdAt: manifest.createdAt ?? 0,
+            size: manifest.size ?? 0,
+            entryCount: manifest.entryCount ?? 0,
+        };
+    } catch (error) {
+        console.error(error as object, `Failed to read backup manifest in ${backupDir.get_path()}`);
+        return null;
+    }
+}
@@ -0,0 +1,12 @@
+import type St from 'gi://St';
+
+/**
+ * Puts `child` in `scrollView`: set_child replaced add_actor in GNOME 46.
+ */
+export function setScrollChild(scrollView: St.ScrollView, child: St.Scrollable) {
+    if (scrollView.set_child) {
+        scrollView.set_child(child);
+    } else {
+        (scrollView as any).add_actor(child);
+    }
+}
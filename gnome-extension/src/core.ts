@@ -1,18 +1,35 @@
+import Clutter from 'gi://Clutter';
 import GLib from 'gi://GLib';
 import Gio from 'gi://Gio';
+import Meta from 'gi://Meta';
+import Shell from 'gi://Shell';
 import St from 'gi://St';
 import { ExtensionMetadata, gettext } from 'resource:///org/gnome/shell/extensions/extension.js';
 import * as Main from 'resource:///org/gnome/shell/ui/main.js';
+import * as ModalDialog from 'resource:///org/gnome/shell/ui/modalDialog.js';
 import * as PanelMenu from 'resource:///org/gnome/shell/ui/panelMenu.js';
 import * as PopupMenu from 'resource:///org/gnome/shell/ui/popupMenu.js';
+import { scoreWorkspaceMatch } from './fuzzy.js';
+import { GlobalStorageSource, WorkspaceSource, WorkspaceSourceId } from './sources.js';
+import { packWorkspaceTags, parseTags, unpackWorkspaceTags } from './tags.js';
+import { WorkspaceOverride, isEmptyOverride, packWorkspaceOverrides, unpackWorkspaceOverrides } from './overrides.js';
+import { RemoteInfo, isRemoteUri, parseRemoteUri } from './remote.js';
+import { NotificationAction, NotificationKind, WorkspaceNotifier } from './notifications.js';
+import { TrashedWorkspace, listTrashedWorkspaces, restoreTrashedWorkspace } from './trash.js';
+import { createBackup, deleteRecursively, pruneBackups } from './backups.js';
+import { editorCommand, launch, splitCommandLine } from './launcher.js';
+import { QuickSwitcher, QuickSwitcherMode } from './quickSwitcher.js';
+import { WorkspaceSearchProvider } from './searchProvider.js';
+import { AppMenuEntry, AppMenuWorkspaces } from './appMenu.js';
+import { WorkspaceRecord, WorkspacesDBusService } from './dbus.js';
+import { GitStatus, GitStatusCache, describeGitStatus } from './git.js';
+import { DiscoveredProject, DiscoveryOptions, ProjectDiscovery } from './discovery.js';
+import { EditorPath, KNOWN_EDITORS, isPackageInstalled } from './editors.js';
+import { AbsentMount, MountTracker } from './mounts.js';
+import { variant } from './variant.js';
+import { setScrollChild } from './compat.js';
 
-// TODO: Add notifications for errors
-// TODO: Implement support for snap, and flatpak installations
 
-// TODO: Show project tags
-// TODO: View as tags
-// TODO: Filter by tags
-// TODO: Sort by Path, Recent, Saved
 // TODO: Add a "Clear all" button to the recent workspaces menu
 
 interface Workspace {
@@ -21,23 +38,55 @@ interface Workspace {
     nofail?: boolean;
     remote?: boolean; // true if workspace is remote (vscode-remote:// or docker://)
     lastAccessed?: number; // Timestamp when workspace was last accessed
+    editor?: EditorPath; // Editor whose storage this workspace was found in
+    pinned?: boolean; // Listed only because it was pinned by hand
+    unavailable?: AbsentMount; // Missing because the drive or share it is on is not mounted
+}
+
+/**
+ * Workspace storage whose folder has gone missing, waiting to be reviewed or to age out.
+ */
+interface OrphanCandidate {
+    workspace: Workspace;
+    reason: string;
+    since: number; // Unix time in seconds when it was first found orphaned
 }
 
 interface RecentWorkspace {
     name: string;
     path: string;
+    editor?: EditorPath;
+    remote?: RemoteInfo; // Set for vscode-remote:// and docker:// workspaces
+    unavailable?: AbsentMount;
     softRemove: () => void;
     removeWorkspaceItem: () => void;
 }
 
-interface EditorPath {
-    name: string;
-    binary: string;
-    workspacePath: string;
-    isDefault?: boolean;
-}
-
 const FILE_URI_PREFIX = 'file://';
+const MAX_SEARCH_RESULTS = 10;
+const MAX_RECENT_WORKSPACES = 50; // Reasonable limit to prevent excessive memory usage
+const STORAGE_CHANGE_DEBOUNCE_MS = 500;
+const RECENTLY_REMOVED_LIMIT = 10;
+const APP_MENU_WORKSPACE_LIMIT = 8;
+const APP_MENU_CACHE_MS = 60 * 1000;
+const APP_MENU_BATCH_SIZE = 20;
+const GIT_BRANCH_MAX_LENGTH = 20;
+const MAX_DISCOVERED_PROJECTS = 50;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+// Bookkeeping the core writes itself while it runs; a change to these never needs a rescan
+const BOOKKEEPING_KEYS = ['workspace-open-counts', 'orphan-first-seen'];
+
+type MenuViewMode = 'list' | 'tags';
+type SortMode = 'recent' | 'name' | 'path' | 'parent' | 'frequency';
+type OrphanCleanupMode = 'review' | 'auto';
+
+const SORT_MODE_LABELS: Record<SortMode, string> = {
+    recent: 'Last Opened',
+    name: 'Name',
+    path: 'Full Path',
+    parent: 'Parent Directory',
+    frequency: 'Open Count',
+};
 
 export class VSCodeWorkspacesCore {
     private metadata: ExtensionMetadata;
@@ -63,40 +112,73 @@ export class VSCodeWorkspacesCore {
     private readonly _userConfigDir: string = GLib.build_filenamev([GLib.get_home_dir(), '.config']);
     private _foundEditors: EditorPath[] = [];
     private _activeEditor?: EditorPath;
-    private readonly _editors: EditorPath[] = [
-        {
-            name: 'vscode',
-            binary: 'code',
-            workspacePath: GLib.build_filenamev([this._userConfigDir, 'Code/User/workspaceStorage']),
-            isDefault: true,
-        },
-        {
-            name: 'codium',
-            binary: 'codium',
-            workspacePath: GLib.build_filenamev([this._userConfigDir, 'VSCodium/User/workspaceStorage']),
-        },
-        {
-            name: 'code-insiders',
-            binary: 'code-insiders',
-            workspacePath: GLib.build_filenamev([this._userConfigDir, 'Code - Insiders/User/workspaceStorage']),
-        },
-        {
-            name: 'cursor',
-            binary: 'cursor',
-            workspacePath: GLib.build_filenamev([this._userConfigDir, 'Cursor/User/workspaceStorage']),
-        },
-    ];
+    private readonly _editors: EditorPath[] = KNOWN_EDITORS;
     private readonly _iconNames = ['code', 'vscode', 'vscodium', 'codium', 'code-insiders', 'cursor'];
     private _menuUpdating: boolean = false;
     private _cleanupOrphanedWorkspaces: boolean = false;
     private _nofailList: string[] = [];
     private _customCmdArgs: string = '';
     private _favorites: Set<string> = new Set();
+    private _pinnedWorkspaces: string[] = [];
     private _lastUserInteraction: number = 0;
     private _currentRefreshInterval: number = 30;
     private _maxRefreshInterval: number = 300; // 5 minutes
     private _minRefreshInterval: number = 30; // 30 seconds
     private _customIconPath: string = ''; // Path or name for a custom icon
+    private _searchEntry?: St.Entry;
+    private _searchResultsSection?: PopupMenu.PopupMenuSection;
+    private _searchResults: { workspace: RecentWorkspace; item: PopupMenu.PopupMenuItem }[] = [];
+    private _searchSelectedIndex: number = 0;
+    private _displayInfoCache: Map<string, { name: string; fullPath: string }> = new Map();
+    private _useGlobalStorage: boolean = true;
+    private _preferredSource: WorkspaceSourceId = 'workspace-storage';
+    private _unifiedEditorView: boolean = false;
+    // Live updates: monitors keyed by the path they watch
+    private _fileMonitors: Map<string, { monitor: Gio.FileMonitor; editor: EditorPath }> = new Map();
+    private _pendingStorageChanges: Map<string, EditorPath> = new Map();
+    private _storageChangeTimeout: number | null = null;
+    private _liveUpdatesActive: boolean = false;
+    private _workspaceTags: Map<string, string[]> = new Map();
+    private _workspaceNames: Map<string, string> = new Map(); // Display names set in Preferences
+    private _menuViewMode: MenuViewMode = 'list';
+    private _tagFilter: Set<string> = new Set();
+    private _sortMode: SortMode = 'recent';
+    private _openCounts: Map<string, number> = new Map();
+    private _workspaceOverrides: Map<string, WorkspaceOverride> = new Map();
+    private _notifier?: WorkspaceNotifier;
+    private _notificationEvents: NotificationKind[] = ['launch', 'cleanup', 'error'];
+    private _orphansTrashed: number = 0;
+    private _orphanCleanupMode: OrphanCleanupMode = 'review';
+    private _orphanCleanupDays: number = 14;
+    private _orphanCandidates: Map<string, OrphanCandidate> = new Map(); // Keyed by storage path
+    private _orphanFirstSeen: Map<string, number> = new Map(); // As last persisted
+    private _mounts?: MountTracker;
+    private _backupRetention: number = 5;
+    private _quickSwitcher?: QuickSwitcher;
+    private _searchProvider?: WorkspaceSearchProvider;
+    private _searchProviderEnabled: boolean = true;
+    private _searchMaxResults: number = 5;
+    private _appMenuWorkspaces?: AppMenuWorkspaces;
+    private _appMenuCache: Map<string, { modified: number; checkedAt: number; workspaces: Workspace[] }> = new Map();
+    private _appMenuLoading: Set<string> = new Set(); // Storage paths being read for _appMenuCache
+    private _dbusService?: WorkspacesDBusService;
+    private _workspacesChangedKey: string = ''; // What ListWorkspaces last reported, minus the times
+    private _gitStatus?: GitStatusCache;
+    private _discovery?: ProjectDiscovery;
+    private _discoveryOptions: DiscoveryOptions = { roots: [], maxDepth: 3, ignore: [], intervalMinutes: 30 };
+    private _discoveredProjects: DiscoveredProject[] = [];
+    // Sources merged on top of the workspaceStorage scan
+    private readonly _sources: WorkspaceSource[] = [
+        new GlobalStorageSource(
+            message => this._log(message),
+            () => {
+                // Re-merge and re-rank once the editor's list has been read, unless disabled since
+                if (this._indicator) {
+                    this._finalizeWorkspaceProcessing();
+                }
+            }
+        ),
+    ];
 
     enable() {
         this._log(`VSCode Workspaces Extension enabled`);
@@ -111,14 +193,39 @@ export class VSCodeWorkspacesCore {
         const icon = this._createIcon();
         this._indicator.add_child(icon);
 
+        this._notifier = new WorkspaceNotifier(this.metadata.name, icon.gicon);
+        this._notifier.setEnabledKinds(this._notificationEvents);
+
         Main.panel.addToStatusArea(this.metadata.uuid, this._indicator);
 
+        // Focus the search entry whenever the menu opens, and reset it when it closes
+        (this._indicator.menu as any).connect('open-state-changed', (_menu: any, isOpen: boolean) => {
+            if (!this._searchEntry) return;
+            if (isOpen) {
+                GLib.idle_add(GLib.PRIORITY_DEFAULT_IDLE, () => {
+                    this._searchEntry?.grab_key_focus();
+                    return GLib.SOURCE_REMOVE;
+                });
+            } else {
+                this._searchEntry.set_text('');
+            }
+        });
+
         if (!this.gsettings) {
             this._log('No gsettings found');
             return;
         }
 
-        this.gsettings.connect('changed', () => {
+        this.gsettings.connect('changed', (_settings: Gio.Settings, key: string) => {
+            if (BOOKKEEPING_KEYS.includes(key)) {
+                this._setSettings();
+                // Launches change the order when sorting by open count
+                if (key === 'workspace-open-counts' && this._sortMode === 'frequency') {
+                    this._createMenu();
+                }
+                return;
+            }
+
             // Store old settings for comparison
             const oldCustomIconPath = this._customIconPath;
 
@@ -130,10 +237,98 @@ export class VSCodeWorkspacesCore {
                 this._updateIcon();
             }
 
+            this._updateSearchProvider();
+            this._discovery?.configure(this._discoveryOptions);
+
             // Start refresh
             this._startRefresh();
         });
 
+        // The shortcut is read from gsettings by the window manager, so changes apply on their own
+        Main.wm.addKeybinding(
+            'quick-switcher-shortcut',
+            this.gsettings,
+            Meta.KeyBindingFlags.NONE,
+            Shell.ActionMode.NORMAL | Shell.ActionMode.OVERVIEW,
+            () => this._openQuickSwitcher()
+        );
+
+        this._searchProvider = new WorkspaceSearchProvider({
+            id: this.metadata.uuid,
+            appInfo: () => this._getSearchProviderAppInfo(),
+            candidates: () => Array.from(this._workspaces).map(workspace => {
+                const { name, fullPath } = this._getDisplayInfo(this._createRecentWorkspaceEntry(workspace));
+                const editor = this._getLaunchEditor(workspace.uri, workspace.editor);
+                return {
+                    id: workspace.uri,
+                    name,
+                    description: fullPath,
+                    createIcon: (size: number) => this._createEditorIcon(editor, size),
+                };
+            }),
+            score: (query, candidate) => scoreWorkspaceMatch(query, candidate.name, candidate.description),
+            maxResults: () => this._searchMaxResults,
+            onActivate: id => this._openWorkspace(id),
+        });
+        this._updateSearchProvider();
+
+        this._appMenuWorkspaces = new AppMenuWorkspaces(app => this._getAppMenuEntries(app));
+        this._appMenuWorkspaces.enable();
+
+        this._gitStatus = new GitStatusCache();
+
+        this._discovery = new ProjectDiscovery(projects => {
+            this._log(`Discovered ${projects.length} projects`);
+            this._discoveredProjects = projects;
+            // Waits for the menu to close rather than rebuilding it under the user
+            this._createMenu();
+        });
+        this._discovery.configure(this._discoveryOptions);
+
+        // Workspaces on a drive that comes or goes change between unavailable and listed
+        this._mounts = new MountTracker(() => {
+            this._log('Mounts changed');
+            this._refresh(true);
+        });
+
+        this._dbusService = new WorkspacesDBusService({
+            list: () => this._listWorkspaceRecords(),
+            open: (uri, editorName) => {
+                const editor = editorName === '' ? undefined : this._findEditor(editorName);
+                if (editorName !== '' && !editor) return false;
+                this._openWorkspace(uri, editor);
+                return true;
+            },
+            toggleFavorite: uri => {
+                const workspace = this._findWorkspace(uri);
+                if (!workspace) return null;
+                this._toggleFavorite(this._createRecentWorkspaceEntry(workspace));
+                return this._favorites.has(uri);
+            },
+            remove: uri => {
+                const workspace = this._findWorkspace(uri);
+                if (!workspace) return false;
+                this._createRecentWorkspaceEntry(workspace).softRemove();
+                return true;
+            },
+            refresh: () => this._refresh(true),
+            setActiveEditor: editorName => {
+                if (editorName === 'auto') {
+                    this._selectEditor('auto');
+                    return true;
+                }
+                const editor = this._findEditor(editorName);
+                if (!editor) return false;
+                this._selectEditor(editor.binary);
+                return true;
+            },
+        });
+        try {
+            this._dbusService.export();
+        } catch (error) {
+            console.error(error as object, 'Failed to export the D-Bus interface');
+        }
+
         this._initializeWorkspaces();
     }
 
@@ -146,6 +341,31 @@ export class VSCodeWorkspacesCore {
             this._refreshTimeout = null;
         }
 
+        this._removeFileMonitors();
+
+        Main.wm.removeKeybinding('quick-switcher-shortcut');
+        this._searchProvider?.unregister();
+        this._searchProvider = undefined;
+        this._appMenuWorkspaces?.disable();
+        this._appMenuWorkspaces = undefined;
+        this._appMenuCache.clear();
+        this._dbusService?.unexport();
+        this._dbusService = undefined;
+        this._workspacesChangedKey = '';
+        this._gitStatus?.destroy();
+        this._gitStatus = undefined;
+        this._discovery?.destroy();
+        this._discovery = undefined;
+        this._discoveredProjects = [];
+        this._orphanCandidates.clear();
+        this._mounts?.destroy();
+        this._mounts = undefined;
+        this._quickSwitcher?.close();
+        this._quickSwitcher = undefined;
+
+        this._notifier?.destroy();
+        this._notifier = undefined;
+
         if (this._indicator) {
             this._indicator.destroy();
             this._indicator = undefined;
@@ -217,6 +437,7 @@ export class VSCodeWorkspacesCore {
         // Create and add new icon
         const icon = this._createIcon();
         this._indicator.add_child(icon);
+        this._notifier?.setIcon(icon.gicon);
 
         this._log('Icon updated');
     }
@@ -235,6 +456,12 @@ export class VSCodeWorkspacesCore {
         this.gsettings.set_boolean('prefer-workspace-file', this._preferCodeWorkspaceFile);
         this.gsettings.set_boolean('debug', this._debug);
         this.gsettings.set_boolean('cleanup-orphaned-workspaces', this._cleanupOrphanedWorkspaces);
+        this.gsettings.set_boolean('use-global-storage', this._useGlobalStorage);
+        this.gsettings.set_string('preferred-workspace-source', this._preferredSource);
+        this.gsettings.set_boolean('unified-editor-view', this._unifiedEditorView);
+        this.gsettings.set_string('menu-view-mode', this._menuViewMode);
+        this.gsettings.set_strv('tag-filter', Array.from(this._tagFilter));
+        this.gsettings.set_string('sort-mode', this._sortMode);
 
         this._log('Persisted settings to gsettings');
     }
@@ -264,6 +491,12 @@ export class VSCodeWorkspacesCore {
                 continue;
             }
 
+            // Sandboxed installs leave their data behind when uninstalled
+            if (editor.package && !isPackageInstalled(editor.package)) {
+                this._log(`Skipping ${editor.name}: ${editor.package.kind} ${editor.package.id} is not installed`);
+                continue;
+            }
+
             this._log(`Found ${editor.name} workspace storage directory: ${editor.workspacePath}`);
             this._foundEditors.push(editor);
         }
@@ -271,6 +504,12 @@ export class VSCodeWorkspacesCore {
         this._log(`Found editors: ${this._foundEditors.map(editor => editor.name)}`);
 
         this._setActiveEditor();
+        this._updateSearchProvider();
+
+        // Have the app menus of editors the panel menu doesn't scan ready before they are opened
+        if (this._appMenuWorkspaces) {
+            this._foundEditors.forEach(editor => this._getEditorWorkspaces(editor));
+        }
 
         this._log(`Active editor: ${this._activeEditor?.name}`);
 
@@ -297,10 +536,16 @@ export class VSCodeWorkspacesCore {
             // Auto selection - use default editor or first available
             this._activeEditor = this._foundEditors.find(editor => editor.isDefault) ?? this._foundEditors[0];
         } else {
+            // Known editors first: snap binaries are full paths too, but have storage of their own
+            const knownEditor = this._findEditor(editorLocation) ??
+                this._editors.find(editor => editor.name === editorLocation || editor.binary === editorLocation);
+
             // Check if the editor location is a custom path (contains /)
             const isCustomPath = editorLocation.includes('/');
 
-            if (isCustomPath) {
+            if (knownEditor) {
+                this._activeEditor = knownEditor;
+            } else if (isCustomPath) {
                 // For custom paths, create a custom editor entry directly
                 this._log(`Using custom editor binary path: ${editorLocation}`);
 
@@ -462,13 +707,43 @@ export class VSCodeWorkspacesCore {
         this._preferCodeWorkspaceFile = this.gsettings.get_value('prefer-workspace-file').deepUnpack() ?? false;
         this._debug = this.gsettings.get_value('debug').deepUnpack() ?? false;
         this._cleanupOrphanedWorkspaces = this.gsettings.get_value('cleanup-orphaned-workspaces').deepUnpack() ?? false;
+        this._orphanCleanupMode = this.gsettings.get_value('orphan-cleanup-mode').deepUnpack() ?? 'review';
+        this._orphanCleanupDays = this.gsettings.get_value('orphan-cleanup-days').deepUnpack() ?? 14;
+        const firstSeen = (this.gsettings.get_value('orphan-first-seen').deepUnpack() as Record<string, number>) ?? {};
+        this._orphanFirstSeen = new Map(Object.entries(firstSeen));
         this._nofailList = this.gsettings.get_value('nofail-workspaces').deepUnpack() ?? [];
         this._customCmdArgs = this.gsettings.get_value('custom-cmd-args').deepUnpack() ?? '';
         // Cast the unpacked value to string[] to satisfy the Set constructor
         const favs = (this.gsettings.get_value('favorite-workspaces').deepUnpack() as string[]) ?? [];
         this._favorites = new Set(favs);
+        this._pinnedWorkspaces = this.gsettings.get_strv('pinned-workspaces');
         // Get custom icon path/name
         this._customIconPath = this.gsettings.get_value('custom-icon').deepUnpack() ?? '';
+        this._useGlobalStorage = this.gsettings.get_value('use-global-storage').deepUnpack() ?? true;
+        this._preferredSource = this.gsettings.get_value('preferred-workspace-source').deepUnpack() ?? 'workspace-storage';
+        this._unifiedEditorView = this.gsettings.get_value('unified-editor-view').deepUnpack() ?? false;
+        this._workspaceTags = unpackWorkspaceTags(this.gsettings.get_value('workspace-tags').deepUnpack());
+        const names = (this.gsettings.get_value('workspace-names').deepUnpack() as Record<string, string>) ?? {};
+        this._workspaceNames = new Map(Object.entries(names));
+        this._menuViewMode = this.gsettings.get_value('menu-view-mode').deepUnpack() ?? 'list';
+        this._tagFilter = new Set(this.gsettings.get_strv('tag-filter'));
+        this._sortMode = this.gsettings.get_value('sort-mode').deepUnpack() ?? 'recent';
+        const openCounts = (this.gsettings.get_value('workspace-open-counts').deepUnpack() as Record<string, number>) ?? {};
+        this._openCounts = new Map(Object.entries(openCounts));
+        this._searchProviderEnabled = this.gsettings.get_value('search-provider-enabled').deepUnpack() ?? true;
+        this._searchMaxResults = this.gsettings.get_value('search-provider-max-results').deepUnpack() ?? 5;
+        this._backupRetention = this.gsettings.get_value('backup-retention').deepUnpack() ?? 5;
+        this._notificationEvents = this.gsettings.get_value('notification-events').deepUnpack() ?? [];
+        this._notifier?.setEnabledKinds(this._notificationEvents);
+        this._workspaceOverrides = unpackWorkspaceOverrides(
+            this.gsettings.get_value('workspace-overrides').deepUnpack() as Record<string, Record<string, string>>
+        );
+        this._discoveryOptions = {
+            roots: this.gsettings.get_strv('discovery-roots'),
+            maxDepth: this.gsettings.get_value('discovery-max-depth').deepUnpack() ?? 3,
+            ignore: this.gsettings.get_strv('discovery-ignore'),
+            intervalMinutes: this.gsettings.get_value('discovery-interval').deepUnpack() ?? 30,
+        };
 
         this._log(`New Window: ${this._newWindow}`);
         this._log(`Workspaces Storage Location: ${this._editorLocation}`);
@@ -476,10 +751,25 @@ export class VSCodeWorkspacesCore {
         this._log(`Prefer Code Workspace File: ${this._preferCodeWorkspaceFile}`);
         this._log(`Debug: ${this._debug}`);
         this._log(`Cleanup Orphaned Workspaces: ${this._cleanupOrphanedWorkspaces}`);
+        this._log(`Orphan Cleanup: ${this._orphanCleanupMode} after ${this._orphanCleanupDays} days`);
         this._log(`No-fail workspaces: ${this._nofailList.join(', ')}`);
         this._log(`Custom CMD Args: ${this._customCmdArgs}`);
         this._log(`Favorite Workspaces: ${Array.from(this._favorites).join(', ')}`);
+        this._log(`Pinned Workspaces: ${this._pinnedWorkspaces.join(', ')}`);
         this._log(`Custom Icon Path: ${this._customIconPath}`);
+        this._log(`Use Global Storage: ${this._useGlobalStorage}`);
+        this._log(`Preferred Workspace Source: ${this._preferredSource}`);
+        this._log(`Unified Editor View: ${this._unifiedEditorView}`);
+        this._log(`Tagged Workspaces: ${this._workspaceTags.size}`);
+        this._log(`Renamed Workspaces: ${this._workspaceNames.size}`);
+        this._log(`Menu View Mode: ${this._menuViewMode}`);
+        this._log(`Tag Filter: ${Array.from(this._tagFilter).join(', ')}`);
+        this._log(`Sort Mode: ${this._sortMode}`);
+        this._log(`Workspace Overrides: ${this._workspaceOverrides.size}`);
+        this._log(`Notification Events: ${this._notificationEvents.join(', ')}`);
+        this._log(`Backup Retention: ${this._backupRetention}`);
+        this._log(`Search Provider: ${this._searchProviderEnabled} (max ${this._searchMaxResults} results)`);
+        this._log(`Project Discovery: ${this._discoveryOptions.roots.join(', ')} (depth ${this._discoveryOptions.maxDepth})`);
     }
 
     private _iconExists(iconName: string): boolean {
@@ -492,12 +782,196 @@ export class VSCodeWorkspacesCore {
         }
     }
 
+    private _lookupEditorApp(editor?: EditorPath): Shell.App | null {
+        const appSystem = Shell.AppSystem.get_default();
+        for (const desktopId of editor?.desktopIds ?? []) {
+            const app = appSystem.lookup_app(desktopId);
+            if (app) return app;
+        }
+        return null;
+    }
+
+    private _createEditorIcon(editor: EditorPath | undefined, size: number): St.Icon {
+        const gicon = this._lookupEditorApp(editor)?.get_icon();
+        if (gicon) {
+            return new St.Icon({ gicon, icon_size: size });
+        }
+        return new St.Icon({
+            icon_name: this._iconNames.find(name => this._iconExists(name)) ?? 'code',
+            icon_size: size,
+        });
+    }
+
+    private _getSearchProviderAppInfo(): Gio.AppInfo | null {
+        // The results are headed by an editor's app; prefer the active one
+        const editors = this._activeEditor ? [this._activeEditor, ...this._foundEditors] : this._foundEditors;
+        for (const editor of editors) {
+            const appInfo = this._lookupEditorApp(editor)?.get_app_info();
+            if (appInfo) return appInfo;
+        }
+        return null;
+    }
+
+    private _getAppMenuEntries(app: Shell.App): AppMenuEntry[] | null {
+        const appId = app.get_id();
+        const editor = [...this._foundEditors, ...this._editors].find(e => e.desktopIds?.includes(appId));
+        if (!editor) return null;
+
+        const workspaces = this._getEditorWorkspaces(editor);
+        const favorites = workspaces.filter(workspace => this._favorites.has(workspace.uri));
+        const recent = workspaces
+            .filter(workspace => !this._favorites.has(workspace.uri))
+            .sort((a, b) => (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0));
+
+        return [...favorites, ...recent].slice(0, APP_MENU_WORKSPACE_LIMIT).map(workspace => ({
+            label: this._getDisplayInfo(this._createRecentWorkspaceEntry(workspace)).name,
+            favorite: this._favorites.has(workspace.uri),
+            activate: () => {
+                Main.overview.hide();
+                this._openWorkspace(workspace.uri, editor);
+            },
+        }));
+    }
+
+    private _getEditorWorkspaces(editor: EditorPath): Workspace[] {
+        // Editors the panel menu already scans are up to date in the cache
+        if (this._getScannedEditors().some(scanned => scanned.binary === editor.binary)) {
+            return Array.from(this._workspaces).filter(workspace => workspace.editor?.binary === editor.binary);
+        }
+
+        // Adding or removing an entry touches the directory; recency inside it is refreshed every minute
+        const cached = this._appMenuCache.get(editor.workspacePath);
+        const modified = this._getStorageLastModified(Gio.File.new_for_path(editor.workspacePath));
+        if (!cached || cached.modified !== modified || Date.now() - cached.checkedAt >= APP_MENU_CACHE_MS) {
+            this._loadEditorWorkspaces(editor);
+        }
+
+        // Whatever was read last, until the new read is done
+        return cached?.workspaces ?? [];
+    }
+
+    /**
+     * Reads an editor's workspaces into _appMenuCache asynchronously: checking that each folder
+     * still exists can take a while on network shares.
+     */
+    private _loadEditorWorkspaces(editor: EditorPath) {
+        if (this._appMenuLoading.has(editor.workspacePath)) return;
+        this._appMenuLoading.add(editor.workspacePath);
+
+        const storageDir = Gio.File.new_for_path(editor.workspacePath);
+        const modified = this._getStorageLastModified(storageDir);
+        const workspaces: Workspace[] = [];
+
+        const finish = () => {
+            this._appMenuLoading.delete(editor.workspacePath);
+            // Disabled while reading
+            if (!this._appMenuWorkspaces) return;
+            this._appMenuCache.set(editor.workspacePath, { modified, checkedAt: Date.now(), workspaces });
+        };
+
+        const readEntry = (storeDir: Gio.File, done: () => void) => {
+            storeDir.get_child('workspace.json').load_contents_async(null, (_file, res) => {
+                let workspace: Workspace | null = null;
+                try {
+                    const [, contents] = storeDir.get_child('workspace.json').load_contents_finish(res);
+                    workspace = this._parseWorkspaceContents(storeDir, contents);
+                } catch (_error) {
+                    // Entries without a workspace.json are skipped, as in the panel menu
+                }
+                if (!workspace) {
+                    done();
+                    return;
+                }
+
+                workspace.lastAccessed = this._getStorageLastModified(storeDir);
+                workspace.editor = editor;
+                if (workspace.remote) {
+                    workspaces.push(workspace);
+                    done();
+                    return;
+                }
+
+                const target = Gio.File.new_for_uri(workspace.uri);
+                target.query_info_async('standard::type', Gio.FileQueryInfoFlags.NONE, GLib.PRIORITY_LOW, null, (_target, infoRes) => {
+                    try {
+                        target.query_info_finish(infoRes);
+                        workspaces.push(workspace);
+                    } catch (_error) {
+                        // The folder is gone
+                    }
+                    done();
+                });
+            });
+        };
+
+        storageDir.enumerate_children_async('standard::name,standard::type', Gio.FileQueryInfoFlags.NONE, GLib.PRIORITY_LOW, null, (_dir, res) => {
+            let enumerator: Gio.FileEnumerator;
+            try {
+                enumerator = storageDir.enumerate_children_finish(res);
+            } catch (error) {
+                console.error(error as object, `Failed to read ${editor.name} workspaces for the app menu`);
+                finish();
+                return;
+            }
+
+            const nextBatch = () => {
+                enumerator.next_files_async(APP_MENU_BATCH_SIZE, GLib.PRIORITY_LOW, null, (_enumerator, batchRes) => {
+                    let infos: Gio.FileInfo[] = [];
+                    try {
+                        infos = enumerator.next_files_finish(batchRes);
+                    } catch (error) {
+                        console.error(error as object, `Failed to read ${editor.name} workspaces for the app menu`);
+                    }
+                    if (infos.length === 0) {
+                        enumerator.close(null);
+                        finish();
+                        return;
+                    }
+
+                    // One entry at a time, then the next batch
+                    const storeDirs = infos
+                        .filter(info => info.get_file_type() === Gio.FileType.DIRECTORY)
+                        .map(info => enumerator.get_child(info));
+                    const readNext = (index: number) => {
+                        if (index === storeDirs.length) {
+                            nextBatch();
+                            return;
+                        }
+                        readEntry(storeDirs[index], () => readNext(index + 1));
+                    };
+                    readNext(0);
+                });
+            };
+            nextBatch();
+        });
+    }
+
+    private _updateSearchProvider() {
+        if (!this._searchProvider) return;
+
+        // The overview needs an app to head the results with, so wait until an editor is found
+        if (this._searchProviderEnabled && this._getSearchProviderAppInfo()) {
+            this._searchProvider.register();
+        } else {
+            this._searchProvider.unregister();
+        }
+    }
+
     private _createMenu() {
         if (!this._indicator) return;
 
         // Record user interaction when menu is opened
         this._recordUserInteraction();
 
+        this._updateMenu();
+    }
+
+    /**
+     * Rebuilds the menu now, or once it closes if it is open.
+     */
+    private _updateMenu() {
+        if (!this._indicator) return;
+
         // If a menu update is in progress, skip this invocation
         if (this._menuUpdating) {
             this._log('Menu update skipped due to concurrent update');
@@ -537,12 +1011,26 @@ export class VSCodeWorkspacesCore {
 
         try {
             (this._indicator.menu as PopupMenu.PopupMenu).removeAll();
+            this._displayInfoCache.clear();
+
+            // Search entry goes first so it can take focus as soon as the menu opens
+            this._createSearchMenu();
 
             // Create menu sections more efficiently
             this._createRecentWorkspacesMenu();
+            this._createDiscoveredProjectsMenu();
 
             (this._indicator.menu as PopupMenu.PopupMenu).addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
 
+            this._createSortMenu();
+
+            if (this._getAllTags().length > 0) {
+                this._createTagsMenu();
+            }
+
+            this._createRecentlyRemovedMenu();
+            this._createOrphansMenu();
+
             // Add Settings and Quit items
             const itemSettings = new PopupMenu.PopupSubMenuMenuItem('Settings');
             const itemClearWorkspaces = new PopupMenu.PopupMenuItem('Clear Workspaces');
@@ -561,6 +1049,12 @@ export class VSCodeWorkspacesCore {
                 this._openExtensionPreferences();
             });
 
+            const itemPinWorkspace = new PopupMenu.PopupMenuItem('Pin Workspace…');
+            itemPinWorkspace.connect('activate', () => {
+                this._openPinWorkspaceDialog();
+            });
+
+            itemSettings.menu.addMenuItem(itemPinWorkspace);
             itemSettings.menu.addMenuItem(itemClearWorkspaces);
             itemSettings.menu.addMenuItem(itemRefresh);
             itemSettings.menu.addMenuItem(itemPreferences);
@@ -589,6 +1083,15 @@ export class VSCodeWorkspacesCore {
 
         const editorSelector = new PopupMenu.PopupSubMenuMenuItem('Select Editor');
 
+        const unifiedSwitch = new PopupMenu.PopupSwitchMenuItem('Show All Editors', this._unifiedEditorView);
+        unifiedSwitch.connect('toggled', (_item: PopupMenu.PopupSwitchMenuItem, state: boolean) => {
+            this._recordUserInteraction();
+            this._unifiedEditorView = state;
+            this.gsettings?.set_boolean('unified-editor-view', state);
+        });
+        editorSelector.menu.addMenuItem(unifiedSwitch);
+        editorSelector.menu.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
+
         this._foundEditors.forEach(editor => {
             const item = new PopupMenu.PopupMenuItem(editor.name);
             const isActive = this._activeEditor?.binary === editor.binary;
@@ -597,15 +1100,7 @@ export class VSCodeWorkspacesCore {
                 item.setOrnament(PopupMenu.Ornament.DOT);
             }
 
-            item.connect('activate', () => {
-                // Record user interaction
-                this._recordUserInteraction();
-
-                this._editorLocation = editor.binary;
-                this.gsettings?.set_string('editor-location', editor.binary);
-                this._setActiveEditor();
-                this._refresh(true); // Force full refresh when changing editors
-            });
+            item.connect('activate', () => this._selectEditor(editor.binary));
 
             editorSelector.menu.addMenuItem(item);
         });
@@ -613,7 +1108,29 @@ export class VSCodeWorkspacesCore {
         (this._indicator.menu as PopupMenu.PopupMenu).addMenuItem(editorSelector);
     }
 
+    private _selectEditor(editorLocation: string) {
+        // Record user interaction
+        this._recordUserInteraction();
+
+        this._editorLocation = editorLocation;
+        this.gsettings?.set_string('editor-location', editorLocation);
+        this._setActiveEditor();
+        this._refresh(true); // Force full refresh when changing editors
+    }
+
+    private _findEditor(nameOrBinary: string): EditorPath | undefined {
+        return this._foundEditors.find(editor => editor.name === nameOrBinary || editor.binary === nameOrBinary);
+    }
+
     private _get_name(workspace: RecentWorkspace) {
+        const customName = this._workspaceNames.get(workspace.path);
+        if (customName) return customName;
+
+        // Nothing to look at locally for remote workspaces
+        if (workspace.remote) {
+            return GLib.path_get_basename(workspace.remote.path).replace('.code-workspace', '');
+        }
+
         let nativePath = decodeURIComponent(workspace.path).replace(FILE_URI_PREFIX, '');
         let name = GLib.path_get_basename(nativePath);
 
@@ -644,6 +1161,10 @@ export class VSCodeWorkspacesCore {
     }
 
     private _get_full_path(workspace: RecentWorkspace) {
+        if (workspace.remote) {
+            return `${workspace.remote.label}:${workspace.remote.path}`;
+        }
+
         let path = decodeURIComponent(workspace.path);
         path = path.replace(FILE_URI_PREFIX, '').replace(GLib.get_home_dir(), '~');
         return path;
@@ -679,6 +1200,40 @@ export class VSCodeWorkspacesCore {
         return starButton;
     }
 
+    private _createEditButton(workspace: RecentWorkspace): St.Button {
+        const editIcon = new St.Icon({
+            icon_name: 'document-edit-symbolic',
+            style_class: 'edit-icon',
+        });
+        const editButton = new St.Button({
+            child: editIcon,
+            style_class: 'icon-button',
+            reactive: true,
+            can_focus: true,
+            track_hover: true,
+        });
+        editButton.connect('clicked', () => {
+            this._openWorkspaceEditor(workspace);
+        });
+
+        return editButton;
+    }
+
+    private _createUnpinButton(workspace: RecentWorkspace): St.Button {
+        const pinButton = new St.Button({
+            child: new St.Icon({ icon_name: 'view-pin-symbolic', style_class: 'pin-icon' }),
+            style_class: 'icon-button',
+            reactive: true,
+            can_focus: true,
+            track_hover: true,
+        });
+        pinButton.connect('clicked', () => {
+            this._setWorkspacePinned(workspace.path, false);
+        });
+
+        return pinButton;
+    }
+
     private _createTrashButton(workspace: RecentWorkspace): St.Button {
         const trashIcon = new St.Icon({
             icon_name: 'user-trash-symbolic',
@@ -698,6 +1253,77 @@ export class VSCodeWorkspacesCore {
         return trashButton;
     }
 
+    private _createEditorBadge(workspace: RecentWorkspace, onEditorChanged: (editor: EditorPath) => void): St.Button {
+        let editor = this._getLaunchEditor(workspace.path, workspace.editor)!;
+        const defaultEditor = editor;
+        const badge = new St.Button({
+            label: editor.name,
+            style_class: 'editor-badge',
+            reactive: this._foundEditors.length > 1,
+            can_focus: true,
+            track_hover: true,
+        });
+
+        // Clicking cycles through the other detected editors
+        badge.connect('clicked', () => {
+            const index = this._foundEditors.findIndex(e => e.binary === editor.binary);
+            editor = this._foundEditors[(index + 1) % this._foundEditors.length];
+            badge.set_label(editor.name);
+            if (editor.binary === defaultEditor.binary) {
+                badge.remove_style_class_name('is-overridden');
+            } else {
+                badge.add_style_class_name('is-overridden');
+            }
+            onEditorChanged(editor);
+        });
+
+        return badge;
+    }
+
+    private _createRemoteBadge(remote: RemoteInfo): St.BoxLayout {
+        const badge = new St.BoxLayout({ style_class: 'remote-badge', vertical: false });
+        badge.add_child(new St.Icon({ icon_name: remote.iconName, style_class: 'remote-icon' }));
+        badge.add_child(new St.Label({ text: remote.label, y_align: Clutter.ActorAlign.CENTER }));
+        return badge;
+    }
+
+    private _getGitDirectory(workspace: RecentWorkspace): string | null {
+        if (workspace.remote || !workspace.path.startsWith(FILE_URI_PREFIX)) return null;
+
+        const path = Gio.File.new_for_uri(workspace.path).get_path();
+        if (!path) return null;
+        // For .code-workspace files, the repository they sit in
+        return this._isFolderUri(workspace.path) ? path : GLib.path_get_dirname(path);
+    }
+
+    private _createGitBadge(directory: string): St.BoxLayout {
+        const badge = new St.BoxLayout({ style_class: 'git-badge', vertical: false, visible: false });
+        const branchLabel = new St.Label({ y_align: Clutter.ActorAlign.CENTER });
+        const dirtyLabel = new St.Label({ text: '●', style_class: 'git-dirty', y_align: Clutter.ActorAlign.CENTER });
+        badge.add_child(branchLabel);
+        badge.add_child(dirtyLabel);
+
+        let destroyed = false;
+        badge.connect('destroy', () => {
+            destroyed = true;
+        });
+
+        const update = (status: GitStatus | null | undefined) => {
+            if (destroyed) return;
+            badge.visible = !!status;
+            if (!status) return;
+
+            branchLabel.text = status.branch.length > GIT_BRANCH_MAX_LENGTH
+                ? `${status.branch.slice(0, GIT_BRANCH_MAX_LENGTH - 1)}…`
+                : status.branch;
+            dirtyLabel.visible = status.dirty;
+        };
+
+        // Shows what we know now; a lookup in the background fills it in or corrects it
+        update(this._gitStatus?.lookup(directory, update));
+        return badge;
+    }
+
     private _createItemContainer(workspace: RecentWorkspace): PopupMenu.PopupMenuItem {
         const item = new PopupMenu.PopupMenuItem('');
         item.actor.add_style_class_name('custom-menu-item');
@@ -710,16 +1336,52 @@ export class VSCodeWorkspacesCore {
         container.set_x_expand(true);
         container.add_child(label);
 
+        const tags = this._getWorkspaceTags(workspace.path);
+        if (tags.length > 0) {
+            container.add_child(new St.Label({ text: tags.join(', '), style_class: 'workspace-tags-label' }));
+        }
+
+        if (workspace.remote) {
+            container.add_child(this._createRemoteBadge(workspace.remote));
+        }
+
+        if (workspace.unavailable) {
+            item.actor.add_style_class_name('workspace-unavailable');
+            container.add_child(new St.Label({
+                text: 'unavailable',
+                style_class: 'unavailable-badge',
+                y_align: Clutter.ActorAlign.CENTER,
+            }));
+        }
+
+        const gitDirectory = workspace.unavailable ? null : this._getGitDirectory(workspace);
+        if (gitDirectory) {
+            container.add_child(this._createGitBadge(gitDirectory));
+        }
+
+        // Editor picked with the badge for this launch only; otherwise _openWorkspace decides
+        let launchEditor: EditorPath | undefined;
+        if (this._unifiedEditorView && workspace.editor) {
+            container.add_child(this._createEditorBadge(workspace, editor => {
+                launchEditor = editor;
+            }));
+        }
+
         const starButton = this._createFavoriteButton(workspace);
+        const editButton = this._createEditButton(workspace);
         const trashButton = this._createTrashButton(workspace);
 
+        if (this._pinnedWorkspaces.includes(workspace.path)) {
+            container.add_child(this._createUnpinButton(workspace));
+        }
         container.add_child(starButton);
+        container.add_child(editButton);
         container.add_child(trashButton);
 
         item.add_child(container);
 
         item.connect('activate', () => {
-            this._openWorkspace(workspace.path);
+            this._openWorkspace(workspace.path, launchEditor);
         });
 
         // Improved tooltip handling to avoid null pointer errors
@@ -734,8 +1396,16 @@ export class VSCodeWorkspacesCore {
             }
 
             // Create a new tooltip
+            const gitStatus = gitDirectory ? this._gitStatus?.lookup(gitDirectory) : null;
+            const lines = [this._get_full_path(workspace)];
+            if (gitStatus) {
+                lines.push(describeGitStatus(gitStatus));
+            }
+            if (workspace.unavailable) {
+                lines.push(`On ${workspace.unavailable.name}, which is not mounted`);
+            }
             tooltip = new St.Label({
-                text: this._get_full_path(workspace),
+                text: lines.join('\n'),
                 style_class: 'workspace-tooltip'
             });
 
@@ -780,9 +1450,12 @@ export class VSCodeWorkspacesCore {
         const popupMenu = this._indicator?.menu as PopupMenu.PopupMenu;
         if (!popupMenu) return;
 
-        // Partition favorites and others
-        const favorites = Array.from(this._recentWorkspaces).filter(ws => this._favorites.has(ws.path));
-        const others = Array.from(this._recentWorkspaces).filter(ws => !this._favorites.has(ws.path));
+        // Partition favorites and others, keeping only workspaces that pass the tag filter
+        const workspaces = this._sortWorkspaces(
+            Array.from(this._recentWorkspaces).filter(ws => this._matchesTagFilter(ws))
+        );
+        const favorites = workspaces.filter(ws => this._favorites.has(ws.path));
+        const others = workspaces.filter(ws => !this._favorites.has(ws.path));
 
         // Clear existing recent menus if any
         // Create Favorites section if favorites exist
@@ -797,6 +1470,11 @@ export class VSCodeWorkspacesCore {
             popupMenu.addMenuItem(new PopupMenu.PopupSeparatorMenuItem());
         }
 
+        if (this._menuViewMode === 'tags') {
+            this._createTagGroupsMenu(others);
+            return;
+        }
+
         // Other recent workspaces
         const recentsSubMenu = new PopupMenu.PopupSubMenuMenuItem('Recent Workspaces');
         const recentsMenu = recentsSubMenu.menu;
@@ -807,70 +1485,616 @@ export class VSCodeWorkspacesCore {
         popupMenu.addMenuItem(recentsSubMenu);
     }
 
-    private _parseWorkspaceJson(workspaceStoreDir: Gio.File): Workspace | null {
-        try {
-            const workspaceFile = Gio.File.new_for_path(
-                GLib.build_filenamev([workspaceStoreDir.get_path()!, 'workspace.json'])
-            );
-            if (!workspaceFile.query_exists(null)) {
-                this._log(`No workspace.json found in ${workspaceStoreDir.get_path()}`);
-                return null;
-            }
-            const [, contents] = workspaceFile.load_contents(null);
-            const decoder = new TextDecoder();
-            const json = JSON.parse(decoder.decode(contents));
-            const workspaceURI = (json.folder || json.workspace) as string | undefined;
-            if (!workspaceURI) {
-                this._log('No folder or workspace property found in workspace.json');
-                return null;
-            }
-            // Determine if the workspace URI indicates a remote resource
-            const remote = workspaceURI.startsWith('vscode-remote://') || workspaceURI.startsWith('docker://');
-            const nofail = json.nofail === true;
-            this._log(`Parsed workspace.json in ${workspaceStoreDir.get_path()} with ${workspaceURI} (nofail: ${nofail}, remote: ${remote})`);
-            return { uri: workspaceURI, storeDir: workspaceStoreDir, nofail, remote };
-        } catch (error) {
-            console.error(error as object, 'Failed to parse workspace.json');
-            return null;
-        }
-    }
+    private _sortWorkspaces(workspaces: RecentWorkspace[]): RecentWorkspace[] {
+        // _recentWorkspaces is already ordered by last opened and Array.sort is stable,
+        // so every mode falls back to recency for ties
+        const sorted = [...workspaces];
+        const compareBy = (key: (workspace: RecentWorkspace) => string) =>
+            (a: RecentWorkspace, b: RecentWorkspace) => key(a).localeCompare(key(b));
 
-    private _maybeUpdateWorkspaceNoFail(workspace: Workspace): void {
-        // Determine the workspace name from its URI
-        let workspaceName = GLib.path_get_basename(workspace.uri);
-        if (workspaceName.endsWith('.code-workspace')) {
-            workspaceName = workspaceName.replace('.code-workspace', '');
-        }
-        // If the workspace name is in our nofail list and not already marked, update the JSON
-        if (this._nofailList.includes(workspaceName) && !workspace.nofail) {
-            this._log(`Updating workspace '${workspaceName}' to set nofail: true`);
-            // Construct workspace.json path
-            if (!workspace.storeDir) return;
-            const wsJsonPath = GLib.build_filenamev([workspace.storeDir.get_path()!, 'workspace.json']);
-            const wsJsonFile = Gio.File.new_for_path(wsJsonPath);
-            try {
-                const [success, contents] = wsJsonFile.load_contents(null);
-                if (!success) {
-                    this._log(`Failed to load workspace.json for ${workspaceName}`);
-                    return;
-                }
-                const decoder = new TextDecoder();
-                let json = JSON.parse(decoder.decode(contents));
-                json.nofail = true;
-                const encoder = new TextEncoder();
-                const newContents = encoder.encode(JSON.stringify(json, null, 2));
-                // Replace the contents of the file
-                wsJsonFile.replace_contents(newContents, null, false, Gio.FileCreateFlags.NONE, null);
-                // Update the workspace object in memory
-                workspace.nofail = true;
-                this._log(`Successfully updated workspace.json for ${workspaceName}`);
-            } catch (error) {
-                console.error(error as object, `Failed to update workspace.json for ${workspaceName}`);
-            }
+        switch (this._sortMode) {
+            case 'name':
+                sorted.sort(compareBy(ws => this._getDisplayInfo(ws).name.toLowerCase()));
+                break;
+            case 'path':
+                sorted.sort(compareBy(ws => this._getDisplayInfo(ws).fullPath.toLowerCase()));
+                break;
+            case 'parent':
+                sorted.sort(compareBy(ws => GLib.path_get_dirname(this._getDisplayInfo(ws).fullPath).toLowerCase()));
+                break;
+            case 'frequency':
+                sorted.sort((a, b) => (this._openCounts.get(b.path) ?? 0) - (this._openCounts.get(a.path) ?? 0));
+                break;
+            case 'recent':
+            default:
+                break;
         }
+
+        return sorted;
     }
 
-    // Kept this function for reference: No longer used.
+    private _createDiscoveredProjectsMenu() {
+        const popupMenu = this._indicator?.menu as PopupMenu.PopupMenu;
+        if (!popupMenu) return;
+
+        // Projects an editor already knows about are listed with the recent workspaces
+        const known = new Set(Array.from(this._workspaces).map(workspace => workspace.uri));
+        const projects = this._discoveredProjects.filter(project => !known.has(project.uri));
+        if (projects.length === 0) return;
+
+        const discoveredSubMenu = new PopupMenu.PopupSubMenuMenuItem('Discovered Projects');
+        for (const project of projects.slice(0, MAX_DISCOVERED_PROJECTS)) {
+            const item = new PopupMenu.PopupMenuItem(project.name);
+            const parentPath = GLib.path_get_dirname(Gio.File.new_for_uri(project.uri).get_path() ?? '');
+            item.add_child(new St.Label({
+                text: parentPath.replace(GLib.get_home_dir(), '~'),
+                style_class: 'discovered-project-path',
+                x_expand: true,
+                y_align: Clutter.ActorAlign.CENTER,
+            }));
+            item.connect('activate', () => {
+                this._openWorkspace(project.uri);
+            });
+            discoveredSubMenu.menu.addMenuItem(item);
+        }
+
+        popupMenu.addMenuItem(discoveredSubMenu);
+    }
+
+    private _createSortMenu() {
+        const popupMenu = this._indicator?.menu as PopupMenu.PopupMenu;
+        if (!popupMenu || this._recentWorkspaces.size === 0) return;
+
+        const sortSubMenu = new PopupMenu.PopupSubMenuMenuItem(`Sort By: ${SORT_MODE_LABELS[this._sortMode]}`);
+
+        for (const [mode, label] of Object.entries(SORT_MODE_LABELS) as [SortMode, string][]) {
+            const item = new PopupMenu.PopupMenuItem(label);
+            if (mode === this._sortMode) {
+                item.setOrnament(PopupMenu.Ornament.DOT);
+            }
+            item.connect('activate', () => {
+                this._recordUserInteraction();
+                this._sortMode = mode;
+                this.gsettings?.set_string('sort-mode', mode);
+                this._buildMenu();
+            });
+            sortSubMenu.menu.addMenuItem(item);
+        }
+
+        popupMenu.addMenuItem(sortSubMenu);
+    }
+
+    private _createRecentlyRemovedMenu() {
+        const popupMenu = this._indicator?.menu as PopupMenu.PopupMenu;
+        if (!popupMenu) return;
+
+        const removedSubMenu = new PopupMenu.PopupSubMenuMenuItem('Recently Removed');
+
+        // Reading the trash is slow, so only do it when someone looks
+        (removedSubMenu.menu as any).connect('open-state-changed', (_menu: any, isOpen: boolean) => {
+            if (!isOpen) return;
+
+            removedSubMenu.menu.removeAll();
+            const loading = new PopupMenu.PopupMenuItem('Loading…', { reactive: false });
+            removedSubMenu.menu.addMenuItem(loading);
+
+            listTrashedWorkspaces(this._getStorageDirs(), RECENTLY_REMOVED_LIMIT, trashed => {
+                loading.destroy();
+                if (trashed.length === 0) {
+                    removedSubMenu.menu.addMenuItem(new PopupMenu.PopupMenuItem('Nothing removed recently', { reactive: false }));
+                    return;
+                }
+
+                for (const entry of trashed) {
+                    const name = entry.uri
+                        ? GLib.path_get_basename(decodeURIComponent(entry.uri)).replace('.code-workspace', '')
+                        : GLib.path_get_basename(entry.origPath);
+                    const removedAt = entry.deletedAt?.to_local()?.format('%b %e, %H:%M');
+                    const item = new PopupMenu.PopupMenuItem(removedAt ? `${name} (${removedAt})` : name);
+                    item.connect('activate', () => {
+                        this._restoreTrashedWorkspace(entry);
+                    });
+                    removedSubMenu.menu.addMenuItem(item);
+                }
+            });
+        });
+
+        popupMenu.addMenuItem(removedSubMenu);
+    }
+
+    private _createOrphansMenu() {
+        const popupMenu = this._indicator?.menu as PopupMenu.PopupMenu;
+        if (!popupMenu || this._orphanCandidates.size === 0) return;
+
+        const candidates = Array.from(this._orphanCandidates.values()).sort((a, b) => a.since - b.since);
+        const orphansSubMenu = new PopupMenu.PopupSubMenuMenuItem(`Orphaned Workspaces (${candidates.length})`);
+
+        for (const candidate of candidates) {
+            const item = new PopupMenu.PopupBaseMenuItem({ reactive: false });
+            const box = new St.BoxLayout({ vertical: true });
+            box.add_child(new St.Label({ text: this._getOrphanName(candidate) }));
+            box.add_child(new St.Label({ text: this._describeOrphan(candidate), style_class: 'orphan-reason' }));
+            item.add_child(box);
+            orphansSubMenu.menu.addMenuItem(item);
+        }
+
+        const itemReview = new PopupMenu.PopupMenuItem('Review and Move to Trash…');
+        itemReview.connect('activate', () => {
+            this._openOrphanReviewDialog();
+        });
+        orphansSubMenu.menu.addMenuItem(itemReview);
+
+        popupMenu.addMenuItem(orphansSubMenu);
+    }
+
+    private _getStorageDirs(): string[] {
+        const editors = this._activeEditor ? [...this._foundEditors, this._activeEditor] : this._foundEditors;
+        return Array.from(new Set(editors.map(editor => editor.workspacePath)));
+    }
+
+    private _restoreRemovedWorkspace(storePath: string) {
+        listTrashedWorkspaces([GLib.path_get_dirname(storePath)], Number.MAX_SAFE_INTEGER, trashed => {
+            const entry = trashed.find(candidate => candidate.origPath === storePath);
+            if (!entry) {
+                this._log(`No trashed entry found for ${storePath}`);
+                this._notifier?.notify({
+                    kind: 'cleanup',
+                    severity: 'warning',
+                    title: 'Nothing to restore',
+                    body: `${GLib.path_get_basename(storePath)} is no longer in the trash.`,
+                });
+                return;
+            }
+            this._restoreTrashedWorkspace(entry);
+        });
+    }
+
+    private _restoreTrashedWorkspace(entry: TrashedWorkspace) {
+        this._recordUserInteraction();
+        try {
+            restoreTrashedWorkspace(entry);
+            this._log(`Restored ${entry.origPath} from the trash`);
+            this._refresh(true);
+        } catch (error) {
+            console.error(error as object, `Failed to restore ${entry.origPath}`);
+            this._notifier?.notify({
+                kind: 'cleanup',
+                severity: 'warning',
+                title: 'Could not restore workspace',
+                body: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private _createTagGroupsMenu(workspaces: RecentWorkspace[]) {
+        const popupMenu = this._indicator?.menu as PopupMenu.PopupMenu;
+        if (!popupMenu) return;
+
+        // A workspace with several tags shows up under each of them
+        const groups = new Map<string, RecentWorkspace[]>();
+        const untagged: RecentWorkspace[] = [];
+        for (const workspace of workspaces) {
+            const tags = this._getWorkspaceTags(workspace.path);
+            if (tags.length === 0) {
+                untagged.push(workspace);
+                continue;
+            }
+            for (const tag of tags) {
+                groups.set(tag, [...(groups.get(tag) ?? []), workspace]);
+            }
+        }
+
+        const addGroup = (title: string, members: RecentWorkspace[]) => {
+            const subMenu = new PopupMenu.PopupSubMenuMenuItem(`${title} (${members.length})`);
+            members.forEach(workspace => {
+                subMenu.menu.addMenuItem(this._createItemContainer(workspace));
+            });
+            popupMenu.addMenuItem(subMenu);
+        };
+
+        Array.from(groups.keys())
+            .sort((a, b) => a.localeCompare(b))
+            .forEach(tag => addGroup(tag, groups.get(tag)!));
+
+        if (untagged.length > 0) {
+            addGroup('Untagged', untagged);
+        }
+    }
+
+    private _createTagsMenu() {
+        const popupMenu = this._indicator?.menu as PopupMenu.PopupMenu;
+        if (!popupMenu) return;
+
+        const tagsSubMenu = new PopupMenu.PopupSubMenuMenuItem('Tags');
+
+        const groupByTag = new PopupMenu.PopupSwitchMenuItem('Group by Tag', this._menuViewMode === 'tags');
+        groupByTag.connect('toggled', (_item: PopupMenu.PopupSwitchMenuItem, state: boolean) => {
+            this._recordUserInteraction();
+            this._menuViewMode = state ? 'tags' : 'list';
+            this.gsettings?.set_string('menu-view-mode', this._menuViewMode);
+            this._buildMenu();
+        });
+        tagsSubMenu.menu.addMenuItem(groupByTag);
+        tagsSubMenu.menu.addMenuItem(new PopupMenu.PopupSeparatorMenuItem('Filter'));
+
+        // One toggle per known tag; workspaces matching any selected tag are shown
+        for (const tag of this._getAllTags()) {
+            const tagItem = new PopupMenu.PopupSwitchMenuItem(tag, this._tagFilter.has(tag));
+            tagItem.connect('toggled', (_item: PopupMenu.PopupSwitchMenuItem, state: boolean) => {
+                this._recordUserInteraction();
+                if (state) {
+                    this._tagFilter.add(tag);
+                } else {
+                    this._tagFilter.delete(tag);
+                }
+                this.gsettings?.set_strv('tag-filter', Array.from(this._tagFilter));
+                this._buildMenu();
+            });
+            tagsSubMenu.menu.addMenuItem(tagItem);
+        }
+
+        if (this._tagFilter.size > 0) {
+            const clearFilter = new PopupMenu.PopupMenuItem('Clear Filter');
+            clearFilter.connect('activate', () => {
+                this._tagFilter.clear();
+                this.gsettings?.set_strv('tag-filter', []);
+                this._buildMenu();
+            });
+            tagsSubMenu.menu.addMenuItem(clearFilter);
+        }
+
+        popupMenu.addMenuItem(tagsSubMenu);
+    }
+
+    private _getWorkspaceTags(uri: string): string[] {
+        return this._workspaceTags.get(uri) ?? [];
+    }
+
+    private _getAllTags(): string[] {
+        const tags = new Set<string>();
+        for (const workspaceTags of this._workspaceTags.values()) {
+            workspaceTags.forEach(tag => tags.add(tag));
+        }
+        return Array.from(tags).sort((a, b) => a.localeCompare(b));
+    }
+
+    private _matchesTagFilter(workspace: RecentWorkspace): boolean {
+        // Ignore filter entries for tags that no longer exist, so a stale filter can't hide everything
+        const knownTags = new Set(this._getAllTags());
+        const activeFilter = Array.from(this._tagFilter).filter(tag => knownTags.has(tag));
+        if (activeFilter.length === 0) return true;
+
+        const tags = this._getWorkspaceTags(workspace.path);
+        return activeFilter.some(tag => tags.includes(tag));
+    }
+
+    private _updateWorkspaceTags(uri: string, tags: string[]) {
+        if (tags.length > 0) {
+            this._workspaceTags.set(uri, tags);
+        } else {
+            this._workspaceTags.delete(uri);
+        }
+        this._log(`Tags for ${uri}: ${tags.join(', ')}`);
+        this.gsettings?.set_value('workspace-tags', variant('a{sas}', packWorkspaceTags(this._workspaceTags)));
+    }
+
+    private _updateWorkspaceOverride(uri: string, override: WorkspaceOverride) {
+        if (isEmptyOverride(override)) {
+            this._workspaceOverrides.delete(uri);
+        } else {
+            this._workspaceOverrides.set(uri, override);
+        }
+        this._log(`Launch override for ${uri}: ${JSON.stringify(override)}`);
+        this.gsettings?.set_value('workspace-overrides', variant('a{sa{ss}}', packWorkspaceOverrides(this._workspaceOverrides)));
+    }
+
+    private _setWorkspaceTags(uri: string, tags: string[]) {
+        this._recordUserInteraction();
+        this._updateWorkspaceTags(uri, tags);
+        this._buildMenu();
+    }
+
+    private _openWorkspaceEditor(workspace: RecentWorkspace) {
+        this._closeMenu();
+
+        const dialog = new ModalDialog.ModalDialog({ destroyOnClose: true, styleClass: 'workspace-editor-dialog' });
+        const override = this._workspaceOverrides.get(workspace.path) ?? {};
+
+        const addField = (labelText: string, entry: St.Widget) => {
+            dialog.contentLayout.add_child(new St.Label({ text: labelText, style_class: 'workspace-editor-label' }));
+            dialog.contentLayout.add_child(entry);
+        };
+
+        dialog.contentLayout.add_child(new St.Label({
+            text: this._get_name(workspace),
+            style_class: 'workspace-editor-title',
+        }));
+
+        const tagsEntry = new St.Entry({
+            text: this._getWorkspaceTags(workspace.path).join(', '),
+            hint_text: 'Comma separated tags, e.g. rust, work',
+            style_class: 'workspace-editor-entry',
+            can_focus: true,
+            x_expand: true,
+        });
+        addField('Tags', tagsEntry);
+
+        const editorEntry = new St.Entry({
+            text: override.editor ?? '',
+            hint_text: `Default (${this._getLaunchEditor(workspace.path, workspace.editor, false)?.binary ?? 'none'})`,
+            style_class: 'workspace-editor-entry',
+            can_focus: true,
+            x_expand: true,
+        });
+        addField('Editor binary', editorEntry);
+
+        const argsEntry = new St.Entry({
+            text: override.args ?? '',
+            hint_text: this._customCmdArgs ? `Default (${this._customCmdArgs})` : 'Default (none)',
+            style_class: 'workspace-editor-entry',
+            can_focus: true,
+            x_expand: true,
+        });
+        addField('Command line arguments', argsEntry);
+
+        // Three states: follow the global setting, always open a new window, or reuse one
+        const newWindowLabels = ['Use global setting', 'Always open a new window', 'Reuse an existing window'];
+        let newWindowState = override.newWindow === undefined ? 0 : override.newWindow ? 1 : 2;
+        const newWindowButton = new St.Button({
+            label: newWindowLabels[newWindowState],
+            style_class: 'button workspace-editor-toggle',
+            can_focus: true,
+            x_expand: true,
+        });
+        newWindowButton.connect('clicked', () => {
+            newWindowState = (newWindowState + 1) % newWindowLabels.length;
+            newWindowButton.set_label(newWindowLabels[newWindowState]);
+        });
+        addField('Window', newWindowButton);
+
+        const save = () => {
+            this._recordUserInteraction();
+            // Each write reloads every setting, so a key is saved before the next one changes
+            this._updateWorkspaceTags(workspace.path, parseTags(tagsEntry.get_text()));
+            this._updateWorkspaceOverride(workspace.path, {
+                editor: editorEntry.get_text().trim() || undefined,
+                args: argsEntry.get_text().trim() || undefined,
+                newWindow: newWindowState === 0 ? undefined : newWindowState === 1,
+            });
+            this._buildMenu();
+            dialog.close();
+        };
+        tagsEntry.clutter_text.connect('activate', save);
+        editorEntry.clutter_text.connect('activate', save);
+        argsEntry.clutter_text.connect('activate', save);
+
+        dialog.setButtons([
+            { label: 'Cancel', action: () => dialog.close(), key: Clutter.KEY_Escape },
+            { label: 'Save', action: save, default: true },
+        ]);
+        dialog.open();
+        dialog.setInitialKeyFocus(tagsEntry);
+    }
+
+    private _resolveEditor(binaryOrName: string): EditorPath {
+        const known = [...this._foundEditors, ...this._editors].find(
+            editor => editor.binary === binaryOrName || editor.name === binaryOrName
+        );
+        if (known) return known;
+
+        // Not one we detected: launch it as given, it just has no storage of its own
+        return {
+            name: `custom (${GLib.path_get_basename(binaryOrName)})`,
+            binary: binaryOrName,
+            workspacePath: '',
+        };
+    }
+
+    private _getLaunchEditor(uri: string, owner?: EditorPath, includeOverride = true): EditorPath | undefined {
+        // Per-workspace override first, then the editor whose storage it came from, then the active one
+        const override = includeOverride ? this._workspaceOverrides.get(uri)?.editor : undefined;
+        if (override) {
+            return this._resolveEditor(override);
+        }
+        return owner ?? this._activeEditor;
+    }
+
+    private _createSearchMenu() {
+        const popupMenu = this._indicator?.menu as PopupMenu.PopupMenu;
+        if (!popupMenu) return;
+
+        this._searchEntry = undefined;
+        this._searchResultsSection = undefined;
+        this._searchResults = [];
+
+        if (this._recentWorkspaces.size === 0) return;
+
+        const searchItem = new PopupMenu.PopupBaseMenuItem({ reactive: false, can_focus: false });
+        const entry = new St.Entry({
+            hint_text: 'Search workspaces…',
+            style_class: 'workspace-search-entry',
+            can_focus: true,
+            x_expand: true,
+        });
+        entry.set_primary_icon(new St.Icon({ icon_name: 'edit-find-symbolic', style_class: 'popup-menu-icon' }));
+        searchItem.add_child(entry);
+        popupMenu.addMenuItem(searchItem);
+
+        const resultsSection = new PopupMenu.PopupMenuSection();
+        popupMenu.addMenuItem(resultsSection);
+
+        entry.clutter_text.connect('text-changed', () => {
+            this._updateSearchResults();
+        });
+
+        // Enter opens the highlighted result
+        entry.clutter_text.connect('activate', () => {
+            this._activateSearchResult();
+        });
+
+        // Up/Down move the highlight without leaving the entry
+        entry.clutter_text.connect('key-press-event', (_actor: Clutter.Actor, event: Clutter.Event) => {
+            const symbol = event.get_key_symbol();
+            if (this._searchResults.length === 0) return Clutter.EVENT_PROPAGATE;
+
+            if (symbol === Clutter.KEY_Down) {
+                this._selectSearchResult(this._searchSelectedIndex + 1);
+                return Clutter.EVENT_STOP;
+            }
+            if (symbol === Clutter.KEY_Up) {
+                this._selectSearchResult(this._searchSelectedIndex - 1);
+                return Clutter.EVENT_STOP;
+            }
+            return Clutter.EVENT_PROPAGATE;
+        });
+
+        this._searchEntry = entry;
+        this._searchResultsSection = resultsSection;
+    }
+
+    private _getDisplayInfo(workspace: RecentWorkspace) {
+        // _get_name touches the filesystem, so only compute it once per menu build
+        let entry = this._displayInfoCache.get(workspace.path);
+        if (!entry) {
+            entry = { name: this._get_name(workspace), fullPath: this._get_full_path(workspace) };
+            this._displayInfoCache.set(workspace.path, entry);
+        }
+        return entry;
+    }
+
+    private _updateSearchResults() {
+        if (!this._searchEntry || !this._searchResultsSection) return;
+
+        this._searchResultsSection.removeAll();
+        this._searchResults = [];
+        this._searchSelectedIndex = 0;
+
+        const query = this._searchEntry.get_text().trim();
+        if (query === '') return;
+
+        this._recordUserInteraction();
+
+        const matches = Array.from(this._recentWorkspaces)
+            .map(workspace => {
+                const { name, fullPath } = this._getDisplayInfo(workspace);
+                return { workspace, score: scoreWorkspaceMatch(query, name, fullPath) };
+            })
+            .filter(match => match.score >= 0)
+            .sort((a, b) => {
+                if (b.score !== a.score) return b.score - a.score;
+                // Favorites win ties
+                return Number(this._favorites.has(b.workspace.path)) - Number(this._favorites.has(a.workspace.path));
+            })
+            .slice(0, MAX_SEARCH_RESULTS);
+
+        this._log(`Search "${query}" matched ${matches.length} workspaces`);
+
+        if (matches.length === 0) {
+            const emptyItem = new PopupMenu.PopupMenuItem('No matching workspaces', { reactive: false });
+            this._searchResultsSection.addMenuItem(emptyItem);
+            return;
+        }
+
+        for (const { workspace } of matches) {
+            const item = this._createItemContainer(workspace);
+            this._searchResultsSection.addMenuItem(item);
+            this._searchResults.push({ workspace, item });
+        }
+
+        this._selectSearchResult(0);
+    }
+
+    private _selectSearchResult(index: number) {
+        if (this._searchResults.length === 0) return;
+
+        const count = this._searchResults.length;
+        this._searchSelectedIndex = ((index % count) + count) % count;
+
+        this._searchResults.forEach(({ item }, i) => {
+            if (i === this._searchSelectedIndex) {
+                item.actor.add_style_class_name('search-result-selected');
+            } else {
+                item.actor.remove_style_class_name('search-result-selected');
+            }
+        });
+    }
+
+    private _activateSearchResult() {
+        const result = this._searchResults[this._searchSelectedIndex];
+        if (!result) return;
+
+        this._openWorkspace(result.workspace.path);
+        this._closeMenu();
+    }
+
+    private _parseWorkspaceJson(workspaceStoreDir: Gio.File): Workspace | null {
+        try {
+            const workspaceFile = Gio.File.new_for_path(
+                GLib.build_filenamev([workspaceStoreDir.get_path()!, 'workspace.json'])
+            );
+            if (!workspaceFile.query_exists(null)) {
+                this._log(`No workspace.json found in ${workspaceStoreDir.get_path()}`);
+                return null;
+            }
+            const [, contents] = workspaceFile.load_contents(null);
+            return this._parseWorkspaceContents(workspaceStoreDir, contents);
+        } catch (error) {
+            console.error(error as object, 'Failed to parse workspace.json');
+            return null;
+        }
+    }
+
+    private _parseWorkspaceContents(workspaceStoreDir: Gio.File, contents: Uint8Array): Workspace | null {
+        const decoder = new TextDecoder();
+        const json = JSON.parse(decoder.decode(contents));
+        const workspaceURI = (json.folder || json.workspace) as string | undefined;
+        if (!workspaceURI) {
+            this._log('No folder or workspace property found in workspace.json');
+            return null;
+        }
+        // Determine if the workspace URI indicates a remote resource
+        const remote = isRemoteUri(workspaceURI);
+        const nofail = json.nofail === true;
+        this._log(`Parsed workspace.json in ${workspaceStoreDir.get_path()} with ${workspaceURI} (nofail: ${nofail}, remote: ${remote})`);
+        return { uri: workspaceURI, storeDir: workspaceStoreDir, nofail, remote };
+    }
+
+    private _maybeUpdateWorkspaceNoFail(workspace: Workspace): void {
+        // Determine the workspace name from its URI
+        let workspaceName = GLib.path_get_basename(workspace.uri);
+        if (workspaceName.endsWith('.code-workspace')) {
+            workspaceName = workspaceName.replace('.code-workspace', '');
+        }
+        // If the workspace name is in our nofail list and not already marked, update the JSON
+        if (this._nofailList.includes(workspaceName) && !workspace.nofail) {
+            this._log(`Updating workspace '${workspaceName}' to set nofail: true`);
+            // Construct workspace.json path
+            if (!workspace.storeDir) return;
+            const wsJsonPath = GLib.build_filenamev([workspace.storeDir.get_path()!, 'workspace.json']);
+            const wsJsonFile = Gio.File.new_for_path(wsJsonPath);
+            try {
+                const [success, contents] = wsJsonFile.load_contents(null);
+                if (!success) {
+                    this._log(`Failed to load workspace.json for ${workspaceName}`);
+                    return;
+                }
+                const decoder = new TextDecoder();
+                let json = JSON.parse(decoder.decode(contents));
+                json.nofail = true;
+                const encoder = new TextEncoder();
+                const newContents = encoder.encode(JSON.stringify(json, null, 2));
+                // Replace the contents of the file
+                wsJsonFile.replace_contents(newContents, null, false, Gio.FileCreateFlags.NONE, null);
+                // Update the workspace object in memory
+                workspace.nofail = true;
+                this._log(`Successfully updated workspace.json for ${workspaceName}`);
+            } catch (error) {
+                console.error(error as object, `Failed to update workspace.json for ${workspaceName}`);
+            }
+        }
+    }
+
+    // Kept this function for reference: No longer used.
     private _iterateWorkspaceDir(dir: Gio.File, callback: (workspace: Workspace) => void) {
         let enumerator: Gio.FileEnumerator | null = null;
         try {
@@ -886,7 +2110,7 @@ export class VSCodeWorkspacesCore {
                 this._maybeUpdateWorkspaceNoFail(workspace);
 
                 const pathToWorkspace = Gio.File.new_for_uri(workspace.uri);
-                if (!pathToWorkspace.query_exists(null)) {
+                if (!workspace.remote && !pathToWorkspace.query_exists(null)) {
                     this._log(`Workspace not found: ${pathToWorkspace.get_path()}`);
                     if (this._cleanupOrphanedWorkspaces && !workspace.nofail) {
                         this._log(`Workspace will be removed: ${pathToWorkspace.get_path()}`);
@@ -925,9 +2149,12 @@ export class VSCodeWorkspacesCore {
         if (workspaceName.endsWith('.code-workspace')) {
             workspaceName = workspaceName.replace('.code-workspace', '');
         }
-        return {
+        const entry: RecentWorkspace = {
             name: workspaceName,
             path: workspace.uri,
+            editor: workspace.editor,
+            remote: parseRemoteUri(workspace.uri) ?? undefined,
+            unavailable: workspace.unavailable,
             softRemove: () => {
                 this._log(`Moving Workspace to Trash: ${workspaceName}`);
 
@@ -940,15 +2167,47 @@ export class VSCodeWorkspacesCore {
                         recentWorkspace => recentWorkspace.path !== workspace.uri
                     )
                 );
-                const trashRes = workspace.storeDir?.trash(null);
-                if (!trashRes) {
-                    this._log(`Failed to move ${workspaceName} to trash`);
+
+                // Entries that only came from the editor's history have no storage to trash
+                if (!workspace.storeDir) {
+                    this._log(`No workspace storage for ${workspaceName}, hiding it until the next refresh`);
+                    this._buildMenu();
+                    this._notifyWorkspacesChanged();
+                    return;
+                }
+
+                try {
+                    const trashRes = workspace.storeDir?.trash(null);
+                    if (!trashRes) {
+                        throw new Error(`Failed to move ${workspaceName} to trash`);
+                    }
+                } catch (error) {
+                    console.error(error as object, `Failed to move ${workspaceName} to trash`);
+                    this._notifier?.notify({
+                        kind: 'cleanup',
+                        severity: 'warning',
+                        title: `Could not remove ${workspaceName}`,
+                        body: error instanceof Error ? error.message : String(error),
+                        actions: [{ label: 'Retry', callback: () => entry.softRemove() }],
+                    });
                     return;
                 }
                 this._log(`Workspace Trashed: ${workspaceName}`);
 
+                const storePath = workspace.storeDir.get_path();
+                this._notifier?.notify({
+                    kind: 'cleanup',
+                    severity: 'info',
+                    title: `Removed ${workspaceName}`,
+                    body: 'Its workspace storage was moved to the trash.',
+                    actions: storePath
+                        ? [{ label: 'Undo', callback: () => this._restoreRemovedWorkspace(storePath) }]
+                        : [],
+                });
+
                 // Update the UI immediately without a full refresh
                 this._buildMenu();
+                this._notifyWorkspacesChanged();
             },
             removeWorkspaceItem: () => {
                 this._log(`Removing workspace: ${workspaceName}`);
@@ -966,33 +2225,71 @@ export class VSCodeWorkspacesCore {
 
                 // Update the UI immediately without a full refresh
                 this._buildMenu();
+                this._notifyWorkspacesChanged();
             },
         };
+        return entry;
+    }
+
+    private _getScannedEditors(): EditorPath[] {
+        if (this._unifiedEditorView) {
+            return this._foundEditors;
+        }
+        return this._activeEditor ? [this._activeEditor] : [];
     }
 
     private _getRecentWorkspaces() {
         try {
-            const activeEditorPath = this._activeEditor?.workspacePath;
-            if (!activeEditorPath) return;
+            const editors = this._getScannedEditors().filter(editor => {
+                if (!Gio.File.new_for_path(editor.workspacePath).query_exists(null)) {
+                    this._log(`Workspace directory does not exist: ${editor.workspacePath}`);
+                    return false;
+                }
+                return true;
+            });
+            if (editors.length === 0) return;
 
-            const dir = Gio.File.new_for_path(activeEditorPath);
-            if (!dir.query_exists(null)) {
-                this._log(`Workspace directory does not exist: ${activeEditorPath}`);
-                return;
+            // Drop cached workspaces that belong to editors we are no longer showing
+            const scannedBinaries = new Set(editors.map(editor => editor.binary));
+            for (const workspace of this._workspaces) {
+                if (workspace.editor && !scannedBinaries.has(workspace.editor.binary)) {
+                    this._workspaces.delete(workspace);
+                }
+            }
+            for (const [storePath, { workspace }] of this._orphanCandidates) {
+                if (workspace.editor && !scannedBinaries.has(workspace.editor.binary)) {
+                    this._orphanCandidates.delete(storePath);
+                }
             }
 
-            // Process workspace directory in batches to avoid UI blocking
-            this._processBatchedWorkspaces(dir, 0);
+            // Watch the storage for changes, or fall back to timed polling if we can't
+            this._updateFileMonitors(editors);
+            this._updatePollingFallback(editors);
+
+            // Process workspace directories in batches to avoid UI blocking
+            this._processBatchedWorkspaces(editors, 0);
         } catch (e) {
             console.error(e as object, 'Failed to load recent workspaces');
         }
     }
 
-    private _processBatchedWorkspaces(dir: Gio.File, startIndex: number, batchSize: number = 10) {
+    private _processBatchedWorkspaces(editors: EditorPath[], startIndex: number, batchSize: number = 10) {
+        const [editor, ...remainingEditors] = editors;
+        const dir = Gio.File.new_for_path(editor.workspacePath);
+
+        // Move on to the next editor's storage, or finish once every editor is done
+        const finishEditor = () => {
+            if (remainingEditors.length > 0) {
+                this._processBatchedWorkspaces(remainingEditors, 0, batchSize);
+            } else {
+                this._finalizeWorkspaceProcessing();
+            }
+        };
+
         // Use GLib.idle_add to avoid blocking the UI thread
         GLib.idle_add(GLib.PRIORITY_DEFAULT_IDLE, () => {
             try {
-                this._log(`Processing workspace batch starting at index ${startIndex}`);
+                this._log(`Processing ${editor.name} workspace batch starting at index ${startIndex}`);
                 let enumerator: Gio.FileEnumerator | null = null;
                 let processedInBatch = 0;
                 let hasMoreItems = false;
@@ -1011,9 +2308,11 @@ export class VSCodeWorkspacesCore {
                     while (processedInBatch < batchSize && (info = enumerator.next_file(null)) !== null) {
                         const workspaceStoreDir = enumerator.get_child(info);
                         this._log(`Checking ${workspaceStoreDir.get_path()}`);
+                        this._addStorageEntryMonitor(editor, workspaceStoreDir);
                         const workspace = this._parseWorkspaceJson(workspaceStoreDir);
 
                         if (workspace) {
+                            workspace.editor = editor;
                             this._maybeUpdateWorkspaceNoFail(workspace);
                             this._processWorkspace(workspace);
                         }
@@ -1033,121 +2332,485 @@ export class VSCodeWorkspacesCore {
                 if (hasMoreItems) {
                     // Schedule the next batch
                     this._log(`Scheduling next batch starting at index ${startIndex + processedInBatch}`);
-                    this._processBatchedWorkspaces(dir, startIndex + processedInBatch, batchSize);
+                    this._processBatchedWorkspaces(editors, startIndex + processedInBatch, batchSize);
                 } else {
                     // All batches processed, finish up
-                    this._log('All workspaces processed');
-                    this._finalizeWorkspaceProcessing();
+                    this._log(`All ${editor.name} workspaces processed`);
+                    finishEditor();
                 }
 
             } catch (error) {
                 console.error(error as object, 'Error processing workspace batch');
-                // Still finalize to ensure UI is updated
-                this._finalizeWorkspaceProcessing();
+                // Still carry on to ensure UI is updated
+                finishEditor();
             }
 
             // Return false to not repeat this idle callback
             return GLib.SOURCE_REMOVE;
         });
-    }
+    }
+
+    private _processWorkspace(workspace: Workspace) {
+        const pathToWorkspace = Gio.File.new_for_uri(workspace.uri);
+        // Remote workspaces can't be checked from here, so they are never treated as orphaned
+        if (!workspace.remote && !pathToWorkspace.query_exists(null)) {
+            // Still listed, and never an orphan, while its drive or share is away
+            workspace.unavailable = this._getAbsentMount(workspace.uri);
+            if (workspace.unavailable) {
+                this._log(`Workspace unavailable until ${workspace.unavailable.root} is mounted: ${workspace.uri}`);
+            } else {
+                this._log(`Workspace not found: ${pathToWorkspace.get_path()}`);
+                if (this._cleanupOrphanedWorkspaces && !workspace.nofail) {
+                    this._addOrphanCandidate(workspace, pathToWorkspace);
+                } else {
+                    this._log(`Skipping removal for workspace: ${workspace.uri} (cleanup enabled: ${this._cleanupOrphanedWorkspaces}, nofail: ${workspace.nofail})`);
+                }
+                return;
+            }
+        }
+
+        // Back again, e.g. a folder that was renamed and then renamed back
+        const storePath = workspace.storeDir?.get_path();
+        if (storePath) {
+            this._orphanCandidates.delete(storePath);
+        }
+
+        // Check for .code-workspace files if preferred
+        if (this._preferCodeWorkspaceFile && !workspace.remote && !workspace.unavailable) {
+            this._maybePreferWorkspaceFile(workspace);
+        }
+
+        const lastModified = this._getStorageLastModified(workspace.storeDir);
+
+        // Already known: just bring its timestamp up to date
+        const existing = [...this._workspaces].find(ws => ws.uri === workspace.uri);
+        if (existing) {
+            this._log(`Workspace already exists: ${workspace.uri}`);
+            // Opened more recently in another editor: that editor owns it now
+            if (workspace.editor && existing.editor?.binary !== workspace.editor.binary &&
+                lastModified > (existing.lastAccessed || 0)) {
+                existing.editor = workspace.editor;
+                existing.storeDir = workspace.storeDir;
+            }
+            // Keep the newer of the on-disk time and a launch recorded by _openWorkspace
+            existing.lastAccessed = Math.max(existing.lastAccessed || 0, lastModified);
+            existing.unavailable = workspace.unavailable;
+            return;
+        }
+
+        workspace.lastAccessed = lastModified;
+        this._workspaces.add(workspace);
+    }
+
+    private _getStorageLastModified(storeDir: Gio.File | null): number {
+        if (!storeDir) return 0;
+
+        // The editor rewrites state.vscdb whenever the workspace is used. workspace.json is
+        // deliberately ignored: it is written once on creation and again by the nofail update.
+        const candidates = [storeDir.get_child('state.vscdb'), storeDir];
+        for (const candidate of candidates) {
+            try {
+                const info = candidate.query_info('time::modified', Gio.FileQueryInfoFlags.NONE, null);
+                const modified = info.get_modification_date_time();
+                if (modified) {
+                    return modified.to_unix() * 1000;
+                }
+            } catch (_error) {
+                // Missing state.vscdb is normal for entries that were never fully opened
+                continue;
+            }
+        }
+
+        return 0;
+    }
+
+    private _maybePreferWorkspaceFile(workspace: Workspace) {
+        const pathToWorkspace = Gio.File.new_for_uri(workspace.uri);
+        if (pathToWorkspace.query_file_type(Gio.FileQueryInfoFlags.NONE, null) !== Gio.FileType.DIRECTORY) {
+            this._log(`Not a directory: ${pathToWorkspace.get_path()}`);
+            return;
+        }
+
+        try {
+            const enumerator = pathToWorkspace.enumerate_children('standard::*,unix::uid', Gio.FileQueryInfoFlags.NONE, null);
+            let info: Gio.FileInfo | null;
+            let workspaceFilePath: string | null = null;
+
+            while ((info = enumerator.next_file(null)) !== null) {
+                const file = enumerator.get_child(info);
+                if (file.get_basename()?.endsWith('.code-workspace')) {
+                    workspaceFilePath = file.get_path();
+                    break;
+                }
+            }
+
+            enumerator.close(null);
+
+            this._log(`Checked for .code-workspace: ${workspaceFilePath}`);
+            if (workspaceFilePath) {
+                const workspaceFile = Gio.File.new_for_path(workspaceFilePath);
+                if (workspaceFile.query_exists(null)) {
+                    // Update workspace URI to point to the .code-workspace file
+                    workspace.uri = `file://${workspaceFilePath}`;
+                    this._log(`Updated workspace URI to use .code-workspace file: ${workspace.uri}`);
+                }
+            }
+        } catch (error) {
+            console.error(error as object, 'Error checking for workspace file');
+        }
+    }
+
+    private _finalizeWorkspaceProcessing() {
+        try {
+            // Fold in workspaces from the other sources before ranking
+            this._mergeSourceWorkspaces();
+            this._mergePinnedWorkspaces();
+            this._reviewOrphanCandidates();
+
+            // One notification per scan rather than one per orphan
+            if (this._orphansTrashed > 0) {
+                this._notifier?.notify({
+                    kind: 'cleanup',
+                    severity: 'info',
+                    title: 'Orphaned workspaces removed',
+                    body: `Moved ${this._orphansTrashed} workspace${this._orphansTrashed === 1 ? '' : 's'} whose folder no longer exists to the trash.`,
+                    actions: [this._openPreferencesAction()],
+                });
+                this._orphansTrashed = 0;
+            }
+
+            // Check if we need to clean up the cache
+            this._performCacheCleanup();
+
+            // Sort workspaces by access time - now using the lastAccessed property
+            const sortedWorkspaces = Array.from(this._workspaces).sort((a, b) => {
+                const aTime = a.lastAccessed || 0;
+                const bTime = b.lastAccessed || 0;
+                return bTime - aTime;
+            });
+
+            this._log(`[Workspace Cache]: ${sortedWorkspaces.length} workspaces`);
+
+            // Limit the number of workspaces to avoid memory bloat
+            const limitedWorkspaces = sortedWorkspaces.slice(0, MAX_RECENT_WORKSPACES);
+            // Pinned workspaces are always listed, however long ago they were opened
+            limitedWorkspaces.push(...sortedWorkspaces.slice(MAX_RECENT_WORKSPACES).filter(
+                ws => this._pinnedWorkspaces.includes(ws.uri)
+            ));
+
+            this._recentWorkspaces = new Set(limitedWorkspaces.map(ws => this._createRecentWorkspaceEntry(ws)));
+            this._log(`[Recent Workspaces]: ${this._recentWorkspaces.size} entries`);
+
+            // Update the menu with the new workspaces
+            this._createMenu();
+            this._notifyWorkspacesChanged();
+        } catch (error) {
+            console.error(error as object, 'Error finalizing workspace processing');
+        }
+    }
+
+    private _mergeSourceWorkspaces() {
+        for (const editor of this._getScannedEditors()) {
+            this._mergeEditorSourceWorkspaces(editor);
+        }
+    }
+
+    private _mergeEditorSourceWorkspaces(editor: EditorPath) {
+        for (const source of this._sources) {
+            if (source.id === 'global-storage' && !this._useGlobalStorage) continue;
+
+            for (const entry of source.collect(editor.workspacePath)) {
+                const workspace: Workspace = {
+                    uri: entry.uri,
+                    storeDir: null,
+                    remote: isRemoteUri(entry.uri),
+                    lastAccessed: entry.lastAccessed,
+                    editor,
+                };
+
+                workspace.unavailable = workspace.remote ? undefined : this._getAbsentMount(workspace.uri);
+                if (this._preferCodeWorkspaceFile && !workspace.remote && !workspace.unavailable) {
+                    this._maybePreferWorkspaceFile(workspace);
+                }
+
+                const existing = [...this._workspaces].find(ws => ws.uri === workspace.uri);
+                if (existing) {
+                    // Both sources know it: the preferred one decides where it ranks, if it knows
+                    // when the workspace was opened
+                    if (this._preferredSource === source.id && entry.lastAccessed > 0) {
+                        existing.lastAccessed = entry.lastAccessed;
+                    }
+                    continue;
+                }
+
+                // There is no storage entry to clean up, so just skip entries that no longer exist
+                if (!workspace.remote && !workspace.unavailable && !Gio.File.new_for_uri(workspace.uri).query_exists(null)) {
+                    this._log(`Skipping ${source.id} workspace that no longer exists: ${workspace.uri}`);
+                    continue;
+                }
+
+                this._log(`Adding workspace from ${source.id}: ${workspace.uri}`);
+                this._workspaces.add(workspace);
+            }
+        }
+    }
+
+    private _mergePinnedWorkspaces() {
+        const pinned = new Set(this._pinnedWorkspaces);
+
+        for (const workspace of [...this._workspaces]) {
+            if (!workspace.pinned || pinned.has(workspace.uri)) continue;
+            // Unpinned: keep it only if an editor knows about it by now
+            if (workspace.storeDir) {
+                workspace.pinned = false;
+            } else {
+                this._workspaces.delete(workspace);
+            }
+        }
+
+        for (const uri of pinned) {
+            const existing = [...this._workspaces].find(ws => ws.uri === uri);
+            if (existing) {
+                // Nothing else checks on workspaces that are only pinned
+                if (existing.pinned) {
+                    existing.unavailable = this._getAbsentMount(uri);
+                }
+                continue;
+            }
+
+            this._log(`Adding pinned workspace: ${uri}`);
+            this._workspaces.add({
+                uri,
+                storeDir: null,
+                remote: isRemoteUri(uri),
+                lastAccessed: 0,
+                pinned: true,
+                unavailable: this._getAbsentMount(uri),
+            });
+        }
+    }
+
+    private _setWorkspacePinned(uri: string, pinned: boolean) {
+        this._recordUserInteraction();
+
+        const isPinned = this._pinnedWorkspaces.includes(uri);
+        if (pinned === isPinned) return;
+
+        this._pinnedWorkspaces = pinned
+            ? [...this._pinnedWorkspaces, uri]
+            : this._pinnedWorkspaces.filter(pinnedUri => pinnedUri !== uri);
+        this._log(`${pinned ? 'Pinned' : 'Unpinned'} workspace: ${uri}`);
+
+        // Saving triggers a refresh through the settings change handler
+        this.gsettings?.set_strv('pinned-workspaces', this._pinnedWorkspaces);
+    }
+
+    private _openPinWorkspaceDialog() {
+        this._closeMenu();
+
+        const dialog = new ModalDialog.ModalDialog({ destroyOnClose: true, styleClass: 'workspace-editor-dialog' });
+        dialog.contentLayout.add_child(new St.Label({
+            text: 'Pin Workspace',
+            style_class: 'workspace-editor-title',
+        }));
+        dialog.contentLayout.add_child(new St.Label({
+            text: 'Folder or .code-workspace file',
+            style_class: 'workspace-editor-label',
+        }));
+
+        const pathEntry = new St.Entry({
+            hint_text: '~/projects/app, or a vscode-remote:// URI',
+            style_class: 'workspace-editor-entry',
+            can_focus: true,
+            x_expand: true,
+        });
+        dialog.contentLayout.add_child(pathEntry);
 
-    private _processWorkspace(workspace: Workspace) {
-        const pathToWorkspace = Gio.File.new_for_uri(workspace.uri);
-        if (!pathToWorkspace.query_exists(null)) {
-            this._log(`Workspace not found: ${pathToWorkspace.get_path()}`);
-            if (this._cleanupOrphanedWorkspaces && !workspace.nofail) {
-                this._log(`Workspace will be removed: ${pathToWorkspace.get_path()}`);
-                this._workspaces.delete(workspace);
-                const trashRes = workspace.storeDir?.trash(null);
-                if (!trashRes) {
-                    this._log(`Failed to move workspace to trash: ${workspace.uri}`);
-                } else {
-                    this._log(`Workspace trashed: ${workspace.uri}`);
-                }
-            } else {
-                this._log(`Skipping removal for workspace: ${workspace.uri} (cleanup enabled: ${this._cleanupOrphanedWorkspaces}, nofail: ${workspace.nofail})`);
+        const errorLabel = new St.Label({ style_class: 'workspace-editor-error', visible: false });
+        dialog.contentLayout.add_child(errorLabel);
+
+        const pin = () => {
+            const text = pathEntry.get_text().trim();
+            if (text === '') return;
+
+            const uri = text.includes('://')
+                ? text
+                : Gio.File.new_for_path(text.replace(/^~/, GLib.get_home_dir())).get_uri();
+            if (!isRemoteUri(uri) && !Gio.File.new_for_uri(uri).query_exists(null)) {
+                errorLabel.text = `${text} does not exist`;
+                errorLabel.show();
+                return;
             }
-            return;
-        }
 
-        // Check for .code-workspace files if preferred
-        if (this._preferCodeWorkspaceFile) {
-            this._maybePreferWorkspaceFile(workspace);
-        }
+            this._setWorkspacePinned(uri, true);
+            dialog.close();
+        };
+        pathEntry.clutter_text.connect('activate', pin);
+
+        dialog.setButtons([
+            { label: 'Cancel', action: () => dialog.close(), key: Clutter.KEY_Escape },
+            { label: 'Pin', action: pin, default: true },
+        ]);
+        dialog.open();
+        dialog.setInitialKeyFocus(pathEntry);
+    }
 
-        // Skip if already in the workspaces set
-        if ([...this._workspaces].some(ws => ws.uri === workspace.uri)) {
-            this._log(`Workspace already exists: ${workspace.uri}`);
-            return;
+    private _addOrphanCandidate(workspace: Workspace, target: Gio.File) {
+        const storePath = workspace.storeDir?.get_path();
+        if (!storePath) return;
+
+        const parent = target.get_parent();
+        let reason = workspace.uri.endsWith('.code-workspace')
+            ? 'Workspace file no longer exists'
+            : 'Folder no longer exists';
+        if (parent && !parent.query_exists(null)) {
+            reason = `${reason}, nor does ${parent.get_path()?.replace(GLib.get_home_dir(), '~')}`;
         }
 
-        // Set initial access timestamp
-        workspace.lastAccessed = Date.now();
-        this._workspaces.add(workspace);
+        const since = this._orphanCandidates.get(storePath)?.since ??
+            this._orphanFirstSeen.get(storePath) ??
+            Math.floor(Date.now() / 1000);
+        this._orphanCandidates.set(storePath, { workspace, reason, since });
+        this._log(`Orphan candidate: ${workspace.uri} (${reason})`);
     }
 
-    private _maybePreferWorkspaceFile(workspace: Workspace) {
-        const pathToWorkspace = Gio.File.new_for_uri(workspace.uri);
-        if (pathToWorkspace.query_file_type(Gio.FileQueryInfoFlags.NONE, null) !== Gio.FileType.DIRECTORY) {
-            this._log(`Not a directory: ${pathToWorkspace.get_path()}`);
-            return;
+    /**
+     * Runs once per scan: forgets candidates that went away, trashes the ones that aged out in
+     * "auto" mode, and tells the user about new ones.
+     */
+    private _reviewOrphanCandidates() {
+        if (!this._cleanupOrphanedWorkspaces) {
+            this._orphanCandidates.clear();
         }
 
-        try {
-            const enumerator = pathToWorkspace.enumerate_children('standard::*,unix::uid', Gio.FileQueryInfoFlags.NONE, null);
-            let info: Gio.FileInfo | null;
-            let workspaceFilePath: string | null = null;
-
-            while ((info = enumerator.next_file(null)) !== null) {
-                const file = enumerator.get_child(info);
-                if (file.get_basename()?.endsWith('.code-workspace')) {
-                    workspaceFilePath = file.get_path();
-                    break;
-                }
+        // Trashed from the review dialog, or removed by the editor or by hand
+        for (const [storePath, { workspace }] of this._orphanCandidates) {
+            if (!workspace.storeDir?.query_exists(null)) {
+                this._orphanCandidates.delete(storePath);
             }
+        }
 
-            enumerator.close(null);
-
-            this._log(`Checked for .code-workspace: ${workspaceFilePath}`);
-            if (workspaceFilePath) {
-                const workspaceFile = Gio.File.new_for_path(workspaceFilePath);
-                if (workspaceFile.query_exists(null)) {
-                    // Update workspace URI to point to the .code-workspace file
-                    workspace.uri = `file://${workspaceFilePath}`;
-                    this._log(`Updated workspace URI to use .code-workspace file: ${workspace.uri}`);
+        if (this._orphanCleanupMode === 'auto') {
+            const now = Math.floor(Date.now() / 1000);
+            for (const candidate of Array.from(this._orphanCandidates.values())) {
+                if (now - candidate.since >= this._orphanCleanupDays * SECONDS_PER_DAY && this._trashOrphan(candidate)) {
+                    this._orphansTrashed++;
                 }
             }
-        } catch (error) {
-            console.error(error as object, 'Error checking for workspace file');
         }
+
+        const found = Array.from(this._orphanCandidates.keys()).filter(storePath => !this._orphanFirstSeen.has(storePath));
+        if (found.length > 0) {
+            this._notifier?.notify({
+                kind: 'cleanup',
+                severity: 'info',
+                title: 'Orphaned workspaces found',
+                body: this._orphanCleanupMode === 'auto'
+                    ? `${found.length} workspace${found.length === 1 ? '' : 's'} point to folders that no longer exist. They will be moved to the trash if they are still missing in ${this._orphanCleanupDays} days.`
+                    : `${found.length} workspace${found.length === 1 ? '' : 's'} point to folders that no longer exist. Review them under "Orphaned Workspaces" in the menu.`,
+            });
+        }
+
+        this._persistOrphanFirstSeen();
     }
 
-    private _finalizeWorkspaceProcessing() {
+    private _trashOrphan(candidate: OrphanCandidate): boolean {
+        const storeDir = candidate.workspace.storeDir;
+        const storePath = storeDir?.get_path();
+        if (!storeDir || !storePath) return false;
+
         try {
-            // Check if we need to clean up the cache
-            this._performCacheCleanup();
+            storeDir.trash(null);
+        } catch (error) {
+            console.error(error as object, `Failed to move workspace to trash: ${candidate.workspace.uri}`);
+            return false;
+        }
 
-            // Sort workspaces by access time - now using the lastAccessed property
-            const sortedWorkspaces = Array.from(this._workspaces).sort((a, b) => {
-                const aTime = a.lastAccessed || 0;
-                const bTime = b.lastAccessed || 0;
-                return bTime - aTime;
-            });
+        this._log(`Workspace trashed: ${candidate.workspace.uri}`);
+        this._orphanCandidates.delete(storePath);
+        this._workspaces.delete(candidate.workspace);
+        return true;
+    }
 
-            this._log(`[Workspace Cache]: ${sortedWorkspaces.length} workspaces`);
+    private _persistOrphanFirstSeen() {
+        const firstSeen = new Map(Array.from(this._orphanCandidates, ([storePath, { since }]) => [storePath, since]));
+        const unchanged = firstSeen.size === this._orphanFirstSeen.size &&
+            Array.from(firstSeen).every(([storePath, since]) => this._orphanFirstSeen.get(storePath) === since);
+        if (unchanged || !this.gsettings) return;
 
-            // Limit the number of workspaces to avoid memory bloat
-            const maxWorkspaces = 50; // Reasonable limit to prevent excessive memory usage
-            const limitedWorkspaces = sortedWorkspaces.slice(0, maxWorkspaces);
+        this._orphanFirstSeen = firstSeen;
+        this.gsettings.set_value('orphan-first-seen', variant('a{sx}', Object.fromEntries(firstSeen)));
+    }
 
-            this._recentWorkspaces = new Set(limitedWorkspaces.map(ws => this._createRecentWorkspaceEntry(ws)));
-            this._log(`[Recent Workspaces]: ${this._recentWorkspaces.size} entries`);
+    private _getOrphanName(candidate: OrphanCandidate): string {
+        return GLib.path_get_basename(decodeURIComponent(candidate.workspace.uri)).replace('.code-workspace', '');
+    }
 
-            // Update the menu with the new workspaces
-            this._createMenu();
-        } catch (error) {
-            console.error(error as object, 'Error finalizing workspace processing');
+    private _describeOrphan(candidate: OrphanCandidate): string {
+        const days = Math.floor((Date.now() / 1000 - candidate.since) / SECONDS_PER_DAY);
+        const parts = [candidate.reason, days === 0 ? 'since today' : `for ${days} day${days === 1 ? '' : 's'}`];
+        if (this._orphanCleanupMode === 'auto') {
+            const left = Math.max(0, this._orphanCleanupDays - days);
+            parts.push(left === 0 ? 'trashed on the next refresh' : `trashed in ${left} day${left === 1 ? '' : 's'}`);
+        }
+        return parts.join(', ');
+    }
+
+    private _openOrphanReviewDialog() {
+        this._closeMenu();
+
+        const candidates = Array.from(this._orphanCandidates.values()).sort((a, b) => a.since - b.since);
+        if (candidates.length === 0) return;
+
+        const dialog = new ModalDialog.ModalDialog({ destroyOnClose: true, styleClass: 'workspace-editor-dialog' });
+        dialog.contentLayout.add_child(new St.Label({
+            text: 'Move Orphaned Workspaces to the Trash',
+            style_class: 'workspace-editor-title',
+        }));
+        dialog.contentLayout.add_child(new St.Label({
+            text: 'Only their editor storage is removed, and it can be restored from "Recently Removed".',
+            style_class: 'workspace-editor-label',
+        }));
+
+        const list = new St.BoxLayout({ vertical: true, style_class: 'orphan-list' });
+        for (const candidate of candidates) {
+            const path = decodeURIComponent(candidate.workspace.uri).replace(FILE_URI_PREFIX, '').replace(GLib.get_home_dir(), '~');
+            list.add_child(new St.Label({ text: this._getOrphanName(candidate), style_class: 'orphan-name' }));
+            list.add_child(new St.Label({ text: path, style_class: 'orphan-reason' }));
+            list.add_child(new St.Label({ text: this._describeOrphan(candidate), style_class: 'orphan-reason' }));
         }
+        const scrollView = new St.ScrollView({
+            style_class: 'orphan-list-scroll',
+            hscrollbar_policy: St.PolicyType.NEVER,
+            vscrollbar_policy: St.PolicyType.AUTOMATIC,
+        });
+        setScrollChild(scrollView, list);
+        dialog.contentLayout.add_child(scrollView);
+
+        const trashAll = () => {
+            dialog.close();
+            this._recordUserInteraction();
+
+            // Only what was shown; a refresh may have found more since
+            const trashed = candidates.filter(candidate => this._trashOrphan(candidate)).length;
+            this._persistOrphanFirstSeen();
+            this._buildMenu();
+
+            if (trashed < candidates.length) {
+                this._notifier?.notify({
+                    kind: 'cleanup',
+                    severity: 'warning',
+                    title: 'Some workspaces were not removed',
+                    body: `${candidates.length - trashed} of ${candidates.length} could not be moved to the trash.`,
+                });
+            }
+        };
+
+        dialog.setButtons([
+            { label: 'Cancel', action: () => dialog.close(), key: Clutter.KEY_Escape },
+            { label: `Move ${candidates.length} to Trash`, action: trashAll },
+        ]);
+        dialog.open();
     }
 
     private _performCacheCleanup() {
@@ -1159,8 +2822,9 @@ export class VSCodeWorkspacesCore {
         if (this._workspaces.size > maxCacheSize) {
             this._log(`Cache size (${this._workspaces.size}) exceeds maximum (${maxCacheSize}), cleaning up old entries`);
 
-            // Identify old workspaces
+            // Identify old workspaces; pinned ones stay however old they are
             const oldWorkspaces = Array.from(this._workspaces).filter(workspace => {
+                if (this._pinnedWorkspaces.includes(workspace.uri)) return false;
                 const lastAccessed = workspace.lastAccessed || 0;
                 return (now - lastAccessed) > maxAge;
             });
@@ -1176,10 +2840,15 @@ export class VSCodeWorkspacesCore {
         }
     }
 
-    private _launchVSCode(files: string[]): void {
+    private _launchVSCode(
+        files: string[],
+        editor: EditorPath | undefined = this._activeEditor,
+        override?: WorkspaceOverride,
+        mode: QuickSwitcherMode = 'default'
+    ): void {
         this._log(`Launching VSCode with files: ${files.join(', ')}`);
         try {
-            if (!this._activeEditor?.binary) {
+            if (!editor?.binary) {
                 throw new Error('No active editor binary specified');
             }
 
@@ -1187,7 +2856,7 @@ export class VSCodeWorkspacesCore {
             const dirPaths: string[] = [];
 
             files.forEach(file => {
-                if (GLib.file_test(file, GLib.FileTest.IS_DIR)) {
+                if (this._isFolderUri(file)) {
                     this._log(`Found a directory: ${file}`);
                     dirPaths.push(file);
                 } else {
@@ -1196,58 +2865,100 @@ export class VSCodeWorkspacesCore {
                 }
             });
 
-            // Build arguments array for consistency
-            const args: string[] = [];
-            if (this._newWindow) {
-                args.push('--new-window');
-            }
-
-            if (dirPaths.length > 0) {
-                args.push('--folder-uri');
-                args.push(...dirPaths.map(dir => `"${dir}"`));
+            // Build the argv directly, no shell involved, so paths never need quoting
+            const argv = editorCommand(editor.binary);
+            if (argv.length === 0) {
+                throw new Error(`Invalid editor command: ${editor.binary}`);
             }
 
-            if (filePaths.length > 0) {
-                if (dirPaths.length === 0) {
-                    args.push('--file-uri');
-                }
-                args.push(...filePaths.map(file => `"${file}"`));
+            // An explicit mode from the quick switcher beats the configured window behaviour
+            if (mode === 'add') {
+                argv.push('--add');
+            } else if (mode === 'new-window' || (override?.newWindow ?? this._newWindow)) {
+                argv.push('--new-window');
             }
 
-            // Append custom command arguments if provided
-            if (this._customCmdArgs && this._customCmdArgs.trim() !== '') {
-                args.push(this._customCmdArgs.trim());
-            }
+            dirPaths.forEach(dir => argv.push('--folder-uri', dir));
+            filePaths.forEach(file => argv.push('--file-uri', file));
+
+            // Append custom command arguments if provided; per-workspace ones replace the global ones
+            argv.push(...splitCommandLine(override?.args?.trim() || this._customCmdArgs));
+
+            this._log(`Command to execute: ${JSON.stringify(argv)}`);
+            launch(argv, failure => {
+                console.error(`${editor.name} exited with status ${failure.exitStatus}: ${failure.stderr}`);
+                this._notifier?.notify({
+                    kind: 'launch',
+                    severity: 'error',
+                    title: `${editor.name} failed to open the workspace`,
+                    body: failure.stderr || `${failure.argv[0]} exited with status ${failure.exitStatus}`,
+                    actions: [
+                        { label: 'Retry', callback: () => this._launchVSCode(files, editor, override, mode) },
+                        this._openPreferencesAction(),
+                    ],
+                });
+            });
+        } catch (error) {
+            console.error(error as object, `Failed to launch ${editor?.name}`);
+            this._notifier?.notify({
+                kind: 'launch',
+                severity: 'error',
+                title: `Failed to launch ${editor?.name ?? 'editor'}`,
+                body: error instanceof Error ? error.message : String(error),
+                actions: [
+                    { label: 'Retry', callback: () => this._launchVSCode(files, editor, override, mode) },
+                    this._openPreferencesAction(),
+                ],
+            });
+        }
+    }
 
-            // Get the binary path from active editor
-            const binaryPath = this._activeEditor.binary;
+    private _isFolderUri(uri: string): boolean {
+        // Remote workspaces can't be stat'ed, but only .code-workspace files are opened as files
+        if (isRemoteUri(uri)) {
+            return !uri.endsWith('.code-workspace');
+        }
 
-            // Check if this is a custom path (contains slashes) or just a binary name
-            const isCustomPath = binaryPath.includes('/');
+        const file = uri.includes('://') ? Gio.File.new_for_uri(uri) : Gio.File.new_for_path(uri);
+        return file.query_file_type(Gio.FileQueryInfoFlags.NONE, null) === Gio.FileType.DIRECTORY;
+    }
 
-            let command: string;
-            if (isCustomPath) {
-                // For custom paths, use the full path directly
-                command = `"${binaryPath}"`;
-                this._log(`Using custom binary path: ${binaryPath}`);
-            } else {
-                // For standard binary names, use as is
-                command = binaryPath;
-                this._log(`Using standard binary name: ${binaryPath}`);
-            }
+    // Before modal dialogs, which would fight the open menu for the keyboard, and after launches
+    private _closeMenu() {
+        (this._indicator?.menu as PopupMenu.PopupMenu | undefined)?.close(true);
+    }
 
-            // Add arguments
-            command += ` ${args.join(' ')}`;
+    private _openQuickSwitcher() {
+        this._recordUserInteraction();
+        this._quickSwitcher?.close();
+
+        // The panel menu and the dialog would both grab the keyboard
+        this._closeMenu();
+
+        const workspaces = this._sortWorkspaces(Array.from(this._recentWorkspaces));
+        this._quickSwitcher = new QuickSwitcher({
+            items: workspaces.map(workspace => {
+                const { name, fullPath } = this._getDisplayInfo(workspace);
+                return { id: workspace.path, name, detail: fullPath, favorite: this._favorites.has(workspace.path) };
+            }),
+            score: (query, item) => scoreWorkspaceMatch(query, item.name, item.detail),
+            onActivate: (item, mode) => {
+                this._quickSwitcher = undefined;
+                this._openWorkspace(item.id, undefined, mode);
+            },
+        });
+        this._quickSwitcher.open();
+    }
 
-            this._log(`Command to execute: ${command}`);
-            GLib.spawn_command_line_async(command);
-        } catch (error) {
-            console.error(error as object, `Failed to launch ${this._activeEditor?.name}`);
+    private _openWorkspace(workspacePath: string, editor?: EditorPath, mode: QuickSwitcherMode = 'default') {
+        // The editor would only show an empty window; offer to mount the drive or share first
+        const absentMount = this._getAbsentMount(workspacePath);
+        if (absentMount) {
+            this._openMountDialog(workspacePath, absentMount, () => this._openWorkspace(workspacePath, editor, mode));
+            return;
         }
-    }
 
-    private _openWorkspace(workspacePath: string) {
-        this._log(`Opening workspace: ${workspacePath}`);
+        this._log(`Opening workspace: ${workspacePath}${editor ? ` with ${editor.name}` : ''}`);
         // Record user interaction when opening a workspace
         this._recordUserInteraction();
 
@@ -1256,13 +2967,103 @@ export class VSCodeWorkspacesCore {
         if (workspace) {
             workspace.lastAccessed = Date.now();
             this._log(`Updated lastAccessed timestamp for ${workspacePath}`);
+
+            // Move it to the top now rather than when the editor next writes its state
+            const listKey = this._getRecentWorkspacesKey();
+            this._updateRecentWorkspace(workspacePath);
+            if (this._getRecentWorkspacesKey() !== listKey) {
+                this._updateMenu();
+            }
+        }
+
+        // Feeds the "Open Count" sort mode
+        this._openCounts.set(workspacePath, (this._openCounts.get(workspacePath) ?? 0) + 1);
+        this.gsettings?.set_value('workspace-open-counts', variant('a{si}', Object.fromEntries(this._openCounts)));
+
+        // An editor picked for this launch wins over the per-workspace override and the owner
+        const override = this._workspaceOverrides.get(workspacePath);
+        const launchEditor = editor ?? this._getLaunchEditor(workspacePath, workspace?.editor);
+
+        this._launchVSCode([workspacePath], launchEditor, override, mode);
+    }
+
+    // Only for local workspaces that are missing because their drive or share is not mounted
+    private _getAbsentMount(uri: string): AbsentMount | undefined {
+        if (!uri.startsWith(FILE_URI_PREFIX)) return undefined;
+
+        const file = Gio.File.new_for_uri(uri);
+        const path = file.get_path();
+        if (!path || file.query_exists(null)) return undefined;
+        return this._mounts?.findAbsentMount(path) ?? undefined;
+    }
+
+    private _openMountDialog(uri: string, absentMount: AbsentMount, onMounted: () => void) {
+        this._closeMenu();
+
+        const name = GLib.path_get_basename(decodeURIComponent(uri)).replace('.code-workspace', '');
+        const volume = absentMount.volume;
+
+        const dialog = new ModalDialog.ModalDialog({ destroyOnClose: true, styleClass: 'workspace-editor-dialog' });
+        dialog.contentLayout.add_child(new St.Label({
+            text: `${absentMount.name} Is Not Mounted`,
+            style_class: 'workspace-editor-title',
+        }));
+        dialog.contentLayout.add_child(new St.Label({
+            text: volume
+                ? `${name} is on ${absentMount.name}. Mount it to open the workspace.`
+                : `${name} is on ${absentMount.root.replace(GLib.get_home_dir(), '~')}. Connect or mount it, then try again.`,
+            style_class: 'workspace-editor-label',
+        }));
+
+        const errorLabel = new St.Label({ style_class: 'workspace-editor-error', visible: false });
+        dialog.contentLayout.add_child(errorLabel);
+
+        if (!volume) {
+            dialog.setButtons([{ label: 'Close', action: () => dialog.close(), key: Clutter.KEY_Escape, default: true }]);
+            dialog.open();
+            return;
         }
 
-        this._launchVSCode([workspacePath]);
+        const mount = () => {
+            volume.mount(Gio.MountMountFlags.NONE, new Gio.MountOperation(), null, (_volume, res) => {
+                try {
+                    volume.mount_finish(res);
+                } catch (error) {
+                    console.error(error as object, `Failed to mount ${absentMount.name}`);
+                    errorLabel.text = `Could not mount ${absentMount.name}: ${(error as GLib.Error).message}`;
+                    errorLabel.show();
+                    return;
+                }
+
+                this._log(`Mounted ${absentMount.name}`);
+                dialog.close();
+                onMounted();
+            });
+        };
+
+        dialog.setButtons([
+            { label: 'Cancel', action: () => dialog.close(), key: Clutter.KEY_Escape },
+            { label: 'Mount and Open', action: mount, default: true },
+        ]);
+        dialog.open();
     }
 
     private _clearRecentWorkspaces() {
         this._log('Clearing recent workspaces');
+        const fail = (e: unknown) => {
+            console.error(`Failed to clear recent workspaces: ${e}`);
+            this._notifier?.notify({
+                kind: 'error',
+                severity: 'error',
+                title: 'Failed to clear recent workspaces',
+                body: e instanceof Error ? e.message : String(e),
+                actions: [
+                    { label: 'Retry', callback: () => this._clearRecentWorkspaces() },
+                    this._openPreferencesAction(),
+                ],
+            });
+        };
+
         try {
             if (
                 !GLib.file_test(
@@ -1272,72 +3073,104 @@ export class VSCodeWorkspacesCore {
             ) {
                 throw new Error('Recent workspaces directory does not exist');
             }
-            // Create a backup of the directory before deleting it
-            const backupPath = `${this._activeEditor?.workspacePath!}.bak`;
-            const backupDir = Gio.File.new_for_path(backupPath);
-            const recentWorkspacesDir = Gio.File.new_for_path(this._activeEditor?.workspacePath!);
+            const editor = this._activeEditor!;
+            const recentWorkspacesDir = Gio.File.new_for_path(editor.workspacePath);
+
+            // Create a timestamped backup of the directory before deleting it; they can be
+            // restored from the preferences. Nothing is deleted unless the backup succeeds
+            this._log(`Creating backup of ${editor.workspacePath}`);
+            createBackup(editor.workspacePath, editor.name, (backup, backupError) => {
+                if (!backup) {
+                    fail(backupError);
+                    return;
+                }
+                this._log(`Backup created successfully: ${backup.path} (${backup.entryCount} entries)`);
 
-            if (backupDir.query_exists(null)) {
-                throw new Error('Backup directory already exists');
-            }
+                this._deleteWorkspaceStorage(recentWorkspacesDir, deleteError => {
+                    if (deleteError) {
+                        fail(deleteError);
+                    }
 
-            this._log(`Creating backup of ${this._activeEditor?.workspacePath!} to ${backupPath}`);
+                    // Whatever could be deleted is gone, so the menu has to catch up either way
+                    this._cleanup();
 
-            const res = recentWorkspacesDir.copy(
-                backupDir,
-                Gio.FileCopyFlags.OVERWRITE,
-                null,
-                null
-            );
+                    this._refresh();
 
-            if (res === null) {
-                throw new Error('Failed to create backup');
-            }
+                    if (!deleteError) {
+                        this._notifier?.notify({
+                            kind: 'cleanup',
+                            severity: 'info',
+                            title: 'Recent workspaces cleared',
+                            body: `A backup of ${backup.entryCount} entries was saved and can be restored from the preferences.`,
+                            actions: [this._openPreferencesAction()],
+                        });
+                    }
 
-            this._log('Backup created successfully');
+                    pruneBackups(editor.workspacePath, this._backupRetention, (expired, pruneError) => {
+                        for (const { path } of expired) {
+                            this._log(`Removed old backup: ${path}`);
+                        }
+                        if (pruneError) {
+                            console.error(pruneError as object, 'Failed to remove old backups');
+                        }
+                    });
+                });
+            });
+        } catch (e) {
+            fail(e);
+        }
+    }
 
-            recentWorkspacesDir.enumerate_children_async(
-                'standard::*,unix::uid',
-                Gio.FileQueryInfoFlags.NONE,
-                GLib.PRIORITY_DEFAULT,
-                null,
-                (recentWorkspace, recentWorkspaceRes) => {
+    /**
+     * Deletes every entry directory in workspaceStorage, one at a time and without blocking the
+     * shell, then calls `callback` with the first error, if any.
+     */
+    private _deleteWorkspaceStorage(recentWorkspacesDir: Gio.File, callback: (error: Error | null) => void) {
+        recentWorkspacesDir.enumerate_children_async(
+            'standard::*,unix::uid',
+            Gio.FileQueryInfoFlags.NONE,
+            GLib.PRIORITY_DEFAULT,
+            null,
+            (recentWorkspace, recentWorkspaceRes) => {
+                const entries: Gio.File[] = [];
+                try {
                     const iter = recentWorkspacesDir.enumerate_children_finish(recentWorkspaceRes);
                     try {
                         let info: Gio.FileInfo | null;
 
                         while ((info = iter.next_file(null)) !== null) {
-                            const file = iter.get_child(info);
-                            if (
-                                file.query_file_type(Gio.FileQueryInfoFlags.NONE, null) !==
-                                Gio.FileType.DIRECTORY
-                            ) {
-                                continue;
+                            if (info.get_file_type() === Gio.FileType.DIRECTORY) {
+                                entries.push(iter.get_child(info));
                             }
-
-                            this._log(`Deleting ${file.get_path()}`);
-                            file.delete(null);
                         }
-
-                        iter.close_async(GLib.PRIORITY_DEFAULT, null, (_iter, _res) => {
-                            try {
-                                _iter?.close_finish(_res);
-                            } catch (error) {
-                                console.error(error as object, 'Failed to close iterator');
-                            }
-                        });
-                    } catch (error) {
-                        console.error(error as object, 'Failed to delete recent workspaces');
+                    } finally {
+                        iter.close(null);
                     }
+                } catch (error) {
+                    console.error(error as object, 'Failed to delete recent workspaces');
+                    callback(error as Error);
+                    return;
                 }
-            );
 
-            this._cleanup();
+                const deleteNext = (index: number) => {
+                    if (index === entries.length) {
+                        callback(null);
+                        return;
+                    }
 
-            this._refresh();
-        } catch (e) {
-            console.error(`Failed to clear recent workspaces: ${e}`);
-        }
+                    this._log(`Deleting ${entries[index].get_path()}`);
+                    deleteRecursively(entries[index], error => {
+                        if (error) {
+                            console.error(error as object, 'Failed to delete recent workspaces');
+                            callback(error);
+                            return;
+                        }
+                        deleteNext(index + 1);
+                    });
+                };
+                deleteNext(0);
+            }
+        );
     }
 
     private _quit() {
@@ -1357,8 +3190,216 @@ export class VSCodeWorkspacesCore {
         // Initial full refresh
         this._refresh(true);
 
-        // Set up adaptive refresh cycle
-        this._setupAdaptiveRefresh();
+        // Set up adaptive refresh cycle, unless file monitors already keep us up to date
+        if (!this._liveUpdatesActive) {
+            this._setupAdaptiveRefresh();
+        }
+    }
+
+    private _updatePollingFallback(editors: EditorPath[]) {
+        this._liveUpdatesActive = editors.every(editor => this._fileMonitors.has(editor.workspacePath));
+
+        if (this._liveUpdatesActive) {
+            if (this._refreshTimeout) {
+                this._log('Live updates active, stopping timed refresh');
+                GLib.source_remove(this._refreshTimeout);
+                this._refreshTimeout = null;
+            }
+        } else if (!this._refreshTimeout) {
+            this._log('File monitoring unavailable, falling back to timed refresh');
+            this._setupAdaptiveRefresh();
+        }
+    }
+
+    private _updateFileMonitors(editors: EditorPath[]) {
+        // Stop watching editors that are no longer shown
+        const scannedBinaries = new Set(editors.map(editor => editor.binary));
+        for (const [path, { editor }] of this._fileMonitors) {
+            if (!scannedBinaries.has(editor.binary)) {
+                this._removeFileMonitor(path);
+            }
+        }
+
+        for (const editor of editors) {
+            // Direct children of workspaceStorage are the per-workspace entries
+            this._addFileMonitor(editor.workspacePath, editor, true, (file, otherFile) => {
+                this._queueStorageChange(editor, file);
+                if (otherFile) {
+                    this._queueStorageChange(editor, otherFile);
+                }
+            });
+        }
+    }
+
+    private _addStorageEntryMonitor(editor: EditorPath, storeDir: Gio.File) {
+        const path = storeDir.get_path();
+        if (!path || this._fileMonitors.has(path)) return;
+
+        // Catches workspace.json being written after the entry is created, and state.vscdb
+        // once a write to it is done, which is when the workspace was last used. Its journal
+        // and the intermediate writes are ignored.
+        this._addFileMonitor(path, editor, true, (file, _otherFile, eventType) => {
+            const name = file.get_basename();
+            if (name === 'workspace.json' ||
+                (name === 'state.vscdb' && eventType === Gio.FileMonitorEvent.CHANGES_DONE_HINT)) {
+                this._queueStorageChange(editor, storeDir);
+            }
+        });
+    }
+
+    private _addFileMonitor(
+        path: string,
+        editor: EditorPath,
+        directory: boolean,
+        onChanged: (file: Gio.File, otherFile: Gio.File | null, eventType: Gio.FileMonitorEvent) => void
+    ): boolean {
+        if (this._fileMonitors.has(path)) return true;
+
+        try {
+            const file = Gio.File.new_for_path(path);
+            const monitor = directory
+                ? file.monitor_directory(Gio.FileMonitorFlags.WATCH_MOVES, null)
+                : file.monitor_file(Gio.FileMonitorFlags.NONE, null);
+
+            monitor.connect('changed', (_monitor: Gio.FileMonitor, changed: Gio.File, other: Gio.File | null, eventType: Gio.FileMonitorEvent) => {
+                // Attribute changes carry nothing we show; CHANGED fires repeatedly before CHANGES_DONE_HINT
+                if (eventType === Gio.FileMonitorEvent.ATTRIBUTE_CHANGED || eventType === Gio.FileMonitorEvent.CHANGED) {
+                    return;
+                }
+                onChanged(changed, other, eventType);
+            });
+
+            this._fileMonitors.set(path, { monitor, editor });
+            return true;
+        } catch (error) {
+            console.error(error as object, `Failed to monitor ${path}`);
+            return false;
+        }
+    }
+
+    private _removeFileMonitor(path: string) {
+        const entry = this._fileMonitors.get(path);
+        if (!entry) return;
+
+        entry.monitor.cancel();
+        this._fileMonitors.delete(path);
+    }
+
+    private _removeFileMonitors() {
+        for (const path of [...this._fileMonitors.keys()]) {
+            this._removeFileMonitor(path);
+        }
+
+        if (this._storageChangeTimeout) {
+            GLib.source_remove(this._storageChangeTimeout);
+            this._storageChangeTimeout = null;
+        }
+        this._pendingStorageChanges.clear();
+        this._liveUpdatesActive = false;
+    }
+
+    private _queueStorageChange(editor: EditorPath, storeDir: Gio.File) {
+        const path = storeDir.get_path();
+        if (!path || GLib.path_get_dirname(path) !== editor.workspacePath) return;
+
+        this._pendingStorageChanges.set(path, editor);
+        this._scheduleStorageChanges();
+    }
+
+    private _scheduleStorageChanges() {
+        // Coalesce bursts of events (the editor writes several files at once) into one update
+        if (this._storageChangeTimeout) return;
+
+        this._storageChangeTimeout = GLib.timeout_add(GLib.PRIORITY_DEFAULT, STORAGE_CHANGE_DEBOUNCE_MS, () => {
+            this._storageChangeTimeout = null;
+            this._applyStorageChanges();
+            return GLib.SOURCE_REMOVE;
+        });
+    }
+
+    private _applyStorageChanges() {
+        const changes = [...this._pendingStorageChanges];
+        this._pendingStorageChanges.clear();
+
+        this._log(`Applying ${changes.length} workspace storage changes`);
+
+        const listKey = this._getRecentWorkspacesKey();
+        for (const [path, editor] of changes) {
+            for (const uri of this._applyStorageChange(editor, Gio.File.new_for_path(path))) {
+                this._updateRecentWorkspace(uri);
+            }
+        }
+
+        // Rewriting an entry the menu already shows leaves nothing to rebuild
+        if (this._getRecentWorkspacesKey() === listKey) return;
+
+        this._updateMenu();
+        this._notifyWorkspacesChanged();
+    }
+
+    /**
+     * Re-reads one storage entry into _workspaces and returns the URIs it added, updated or
+     * removed.
+     */
+    private _applyStorageChange(editor: EditorPath, storeDir: Gio.File): string[] {
+        const path = storeDir.get_path();
+        if (!path) return [];
+
+        if (!storeDir.query_exists(null)) {
+            this._log(`Workspace storage entry removed: ${path}`);
+            this._removeFileMonitor(path);
+            this._orphanCandidates.delete(path);
+
+            const removed = Array.from(this._workspaces).filter(workspace => workspace.storeDir?.get_path() === path);
+            removed.forEach(workspace => this._workspaces.delete(workspace));
+            return removed.map(workspace => workspace.uri);
+        }
+
+        this._addStorageEntryMonitor(editor, storeDir);
+
+        // workspace.json may not have been written yet; its creation will trigger another change
+        const workspace = this._parseWorkspaceJson(storeDir);
+        if (!workspace) return [];
+
+        workspace.editor = editor;
+        this._maybeUpdateWorkspaceNoFail(workspace);
+        this._processWorkspace(workspace);
+        return [workspace.uri];
+    }
+
+    /**
+     * Replaces the menu entry for one workspace, keeping the list in last-opened order, without
+     * re-ranking every workspace like _finalizeWorkspaceProcessing does.
+     */
+    private _updateRecentWorkspace(uri: string) {
+        const others = Array.from(this._recentWorkspaces).filter(recent => recent.path !== uri);
+        const workspace = this._findWorkspace(uri);
+        if (!workspace) {
+            this._recentWorkspaces = new Set(others);
+            return;
+        }
+
+        const lastAccessed = workspace.lastAccessed ?? 0;
+        const index = others.findIndex(recent => (this._findWorkspace(recent.path)?.lastAccessed ?? 0) < lastAccessed);
+        if (index === -1) {
+            // Older than everything listed: only a pin gets it past the limit
+            if (others.length >= MAX_RECENT_WORKSPACES && !this._pinnedWorkspaces.includes(uri)) {
+                this._recentWorkspaces = new Set(others);
+                return;
+            }
+            others.push(this._createRecentWorkspaceEntry(workspace));
+        } else {
+            others.splice(index, 0, this._createRecentWorkspaceEntry(workspace));
+        }
+
+        this._recentWorkspaces = new Set(others);
+    }
+
+    private _getRecentWorkspacesKey(): string {
+        return JSON.stringify([
+            Array.from(this._recentWorkspaces, recent => [recent.path, recent.editor?.binary, recent.unavailable?.root]),
+            Array.from(this._orphanCandidates.keys()),
+        ]);
     }
 
     private _setupAdaptiveRefresh() {
@@ -1375,6 +3416,12 @@ export class VSCodeWorkspacesCore {
             // Use lightweight refresh for timer-based updates
             this._refresh(false);
 
+            // File monitoring became available during this refresh and takes over from here
+            if (this._liveUpdatesActive) {
+                this._refreshTimeout = null;
+                return GLib.SOURCE_REMOVE;
+            }
+
             // Remove any existing timeout before scheduling the next one
             if (this._refreshTimeout) {
                 GLib.source_remove(this._refreshTimeout);
@@ -1488,6 +3535,41 @@ export class VSCodeWorkspacesCore {
 
         // Update UI immediately without a full refresh
         this._buildMenu();
+        this._notifyWorkspacesChanged();
+    }
+
+    private _findWorkspace(uri: string): Workspace | undefined {
+        return Array.from(this._workspaces).find(workspace => workspace.uri === uri);
+    }
+
+    private _listWorkspaceRecords(): WorkspaceRecord[] {
+        return Array.from(this._workspaces)
+            .sort((a, b) => (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0))
+            .map(workspace => ({
+                uri: workspace.uri,
+                name: this._getDisplayInfo(this._createRecentWorkspaceEntry(workspace)).name,
+                editor: (workspace.editor ?? this._activeEditor)?.name ?? '',
+                favorite: this._favorites.has(workspace.uri),
+                tags: this._getWorkspaceTags(workspace.uri),
+                lastOpened: Math.floor((workspace.lastAccessed ?? 0) / 1000),
+            }));
+    }
+
+    private _notifyWorkspacesChanged() {
+        // Refreshes rescan everything, so only tell listeners when the result is different
+        const key = JSON.stringify(
+            this._listWorkspaceRecords()
+                .map(({ lastOpened: _lastOpened, ...record }) => record)
+                .sort((a, b) => a.uri.localeCompare(b.uri))
+        );
+        if (key === this._workspacesChangedKey) return;
+
+        this._workspacesChangedKey = key;
+        this._dbusService?.emitWorkspacesChanged();
+    }
+
+    private _openPreferencesAction(): NotificationAction {
+        return { label: 'Open Preferences', callback: () => this._openExtensionPreferences() };
     }
 
     private _openExtensionPreferences(): void {
@@ -0,0 +1,144 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+import { variant } from './variant.js';
+
+/**
+ * One workspace as returned by ListWorkspaces.
+ */
+export interface WorkspaceRecord {
+    uri: string;
+    name: string;
+    editor: string; // Name of the editor it was found in
+    favorite: boolean;
+    tags: string[];
+    lastOpened: number; // Unix time in seconds, 0 if unknown
+}
+
+/**
+ * What the service calls into. Handlers return false for a workspace or editor they don't know.
+ */
+export interface WorkspacesServiceHandlers {
+    list: () => WorkspaceRecord[];
+    open: (uri: string, editor: string) => boolean;
+    toggleFavorite: (uri: string) => boolean | null; // The new state, null if unknown
+    remove: (uri: string) => boolean;
+    refresh: () => void;
+    setActiveEditor: (editor: string) => boolean;
+}
+
+export const DBUS_OBJECT_PATH = '/org/gnome/Shell/Extensions/VSCodeWorkspaces';
+
+const INTERFACE_XML = `
+<node>
+    <interface name="org.gnome.Shell.Extensions.VSCodeWorkspaces">
+        <method name="ListWorkspaces">
+            <arg type="a(sssbasx)" direction="out" name="workspaces"/>
+        </method>
+        <method name="OpenWorkspace">
+            <arg type="s" direction="in" name="uri"/>
+            <arg type="s" direction="in" name="editor"/>
+        </method>
+        <method name="ToggleFavorite">
+            <arg type="s" direction="in" name="uri"/>
+            <arg type="b" direction="out" name="favorite"/>
+        </method>
+        <method name="RemoveWorkspace">
+            <arg type="s" direction="in" name="uri"/>
+        </method>
+        <method name="Refresh"/>
+        <method name="SetActiveEditor">
+            <arg type="s" direction="in" name="editor"/>
+        </method>
+        <signal name="WorkspacesChanged"/>
+    </interface>
+</node>`;
+
+/**
+ * Exports the workspace list on the session bus, under the shell's own bus name, so scripts
+ * and launchers can use it:
+ *
+ *     gdbus call --session --dest org.gnome.Shell \
+ *         --object-path /org/gnome/Shell/Extensions/VSCodeWorkspaces \
+ *         --method org.gnome.Shell.Extensions.VSCodeWorkspaces.ListWorkspaces
+ *
+ * Method names are capitalised because gjs dispatches D-Bus calls to members of the same name.
+ */
+export class WorkspacesDBusService {
+    private _handlers: WorkspacesServiceHandlers;
+    private _impl: Gio.DBusExportedObject | null = null;
+
+    constructor(handlers: WorkspacesServiceHandlers) {
+        this._handlers = handlers;
+    }
+
+    export() {
+        if (this._impl) return;
+        this._impl = Gio.DBusExportedObject.wrapJSObject(INTERFACE_XML, this);
+        this._impl.export(Gio.DBus.session, DBUS_OBJECT_PATH);
+    }
+
+    unexport() {
+        this._impl?.unexport();
+        this._impl = null;
+    }
+
+    emitWorkspacesChanged() {
+        this._impl?.emit_signal('WorkspacesChanged', variant('()', []));
+    }
+
+    ListWorkspaces(): [string, string, string, boolean, string[], number][] {
+        return this._handlers
+            .list()
+            .map(record => [
+                record.uri,
+                record.name,
+                record.editor,
+                record.favorite,
+                record.tags,
+                record.lastOpened,
+            ]);
+    }
+
+    OpenWorkspace(uri: string, editor: string) {
+        if (!this._handlers.open(this._toUri(uri), editor)) {
+            throw this._invalidArgs(`Unknown editor: ${editor}`);
+        }
+    }
+
+    ToggleFavorite(uri: string): boolean {
+        const favorite = this._handlers.toggleFavorite(this._toUri(uri));
+        if (favorite === null) {
+            throw this._invalidArgs(`Unknown workspace: ${uri}`);
+        }
+        return favorite;
+    }
+
+    RemoveWorkspace(uri: string) {
+        if (!this._handlers.remove(this._toUri(uri))) {
+            throw this._invalidArgs(`Unknown workspace: ${uri}`);
+        }
+    }
+
+    Refresh() {
+        this._handlers.refresh();
+    }
+
+    SetActiveEditor(editor: string) {
+        if (!this._handlers.setActiveEditor(editor)) {
+            throw this._invalidArgs(`Unknown editor: ${editor}`);
+        }
+    }
+
+    // Scripts are more likely to have a path than a file:// URI at hand
+    private _toUri(uriOrPath: string): string {
+        if (uriOrPath.trim() === '') {
+            throw this._invalidArgs('No workspace given');
+        }
+        return uriOrPath.startsWith('/') ? Gio.File.new_for_path(uriOrPath).get_uri() : uriOrPath;
+    }
+
+    // gjs returns thrown GLib errors to the caller as the matching D-Bus error
+    private _invalidArgs(message: string): GLib.Error {
+        return new GLib.Error(Gio.DBusError.quark(), Gio.DBusError.INVALID_ARGS, message);
+    }
+}
@@ -0,0 +1,245 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+/**
+ * A git repository or `.code-workspace` file found under one of the discovery roots.
+ */
+export interface DiscoveredProject {
+    uri: string;
+    name: string;
+    kind: 'git' | 'code-workspace';
+    root: string; // The configured root it was found under
+}
+
+export interface DiscoveryOptions {
+    roots: string[]; // Absolute paths; `~` is expanded
+    maxDepth: number; // How many levels below a root to look
+    ignore: string[]; // Glob patterns matched against directory names
+    intervalMinutes: number; // Full rescan schedule
+}
+
+const DIRS_PER_BATCH = 20;
+const CHANGE_DEBOUNCE_S = 5;
+const MAX_MONITORS = 100;
+const WORKSPACE_FILE_SUFFIX = '.code-workspace';
+
+/**
+ * Finds projects under a set of root directories, in the background.
+ *
+ * Directories are read a batch at a time from idle callbacks so the shell stays responsive.
+ * A repository is not descended into, so nested checkouts and build trees are never walked.
+ * The directories that hold projects are watched, and the whole scan is repeated on a timer.
+ */
+export class ProjectDiscovery {
+    private _onUpdate: (projects: DiscoveredProject[]) => void;
+    private _options: DiscoveryOptions | null = null;
+    private _scanId: number | null = null;
+    private _intervalId: number | null = null;
+    private _changeTimeoutId: number | null = null;
+    private _monitors: Map<string, Gio.FileMonitor> = new Map();
+
+    constructor(onUpdate: (projects: DiscoveredProject[]) => void) {
+        this._onUpdate = onUpdate;
+    }
+
+    /**
+     * Applies new options and rescans if they changed. No roots turns discovery off.
+     */
+    configure(options: DiscoveryOptions) {
+        if (JSON.stringify(options) === JSON.stringify(this._options)) return;
+        this._options = options;
+
+        this._stop();
+        if (options.roots.length === 0) {
+            this._onUpdate([]);
+            return;
+        }
+
+        this._intervalId = GLib.timeout_add_seconds(
+            GLib.PRIORITY_LOW,
+            options.intervalMinutes * 60,
+            () => {
+                this._scan();
+                return GLib.SOURCE_CONTINUE;
+            }
+        );
+        this._scan();
+    }
+
+    destroy() {
+        this._stop();
+        this._options = null;
+    }
+
+    private _stop() {
+        if (this._scanId) {
+            GLib.source_remove(this._scanId);
+            this._scanId = null;
+        }
+        if (this._intervalId) {
+            GLib.source_remove(this._intervalId);
+            this._intervalId = null;
+        }
+        if (this._changeTimeoutId) {
+            GLib.source_remove(this._changeTimeoutId);
+            this._changeTimeoutId = null;
+        }
+        this._monitors.forEach(monitor => monitor.cancel());
+        this._monitors.clear();
+    }
+
+    private _scan() {
+        const options = this._options;
+        if (!options) return;
+
+        if (this._scanId) {
+            GLib.source_remove(this._scanId);
+        }
+
+        const projects: DiscoveredProject[] = [];
+        const containers: string[] = []; // Directories worth watching for new projects
+        const queue = options.roots
+            .map(root => root.replace(/^~/, GLib.get_home_dir()))
+            .filter(root => GLib.file_test(root, GLib.FileTest.IS_DIR))
+            .map(root => ({ dir: Gio.File.new_for_path(root), depth: 0, root }));
+
+        this._scanId = GLib.idle_add(GLib.PRIORITY_LOW, () => {
+            for (let i = 0; i < DIRS_PER_BATCH && queue.length > 0; i++) {
+                const { dir, depth, root } = queue.shift()!;
+                const subdirs = this._scanDirectory(dir, root, options, projects);
+                if (subdirs === null) continue; // A repository, or unreadable
+
+                if (depth < options.maxDepth) {
+                    containers.push(dir.get_path()!);
+                    queue.push(...subdirs.map(subdir => ({ dir: subdir, depth: depth + 1, root })));
+                }
+            }
+
+            if (queue.length > 0) return GLib.SOURCE_CONTINUE;
+
+            this._scanId = null;
+            this._watch(containers);
+            this._onUpdate(projects.sort((a, b) => a.name.localeCompare(b.name)));
+            return GLib.SOURCE_REMOVE;
+        });
+    }
+
+    /**
+     * Records what `dir` holds and returns the subdirectories to look into next, or null if
+     * `dir` is itself a repository.
+     */
+    private _scanDirectory(
+        dir: Gio.File,
+        root: string,
+        options: DiscoveryOptions,
+        projects: DiscoveredProject[]
+    ): Gio.File[] | null {
+        const subdirs: Gio.File[] = [];
+        const workspaceFiles: Gio.File[] = [];
+
+        try {
+            const enumerator = dir.enumerate_children(
+                'standard::name,standard::type',
+                Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+                null
+            );
+            let info: Gio.FileInfo | null;
+
+            while ((info = enumerator.next_file(null)) !== null) {
+                const name = info.get_name();
+                const file = enumerator.get_child(info);
+
+                // A file for worktrees and submodules, a directory otherwise
+                if (name === '.git') {
+                    enumerator.close(null);
+                    projects.push({
+                        uri: dir.get_uri(),
+                        name: dir.get_basename() ?? '',
+                        kind: 'git',
+                        root,
+                    });
+                    return null;
+                }
+
+                if (info.get_file_type() === Gio.FileType.DIRECTORY) {
+                    if (!options.ignore.some(pattern => GLib.pattern_match_simple(pattern, name))) {
+                        subdirs.push(file);
+                    }
+                } else if (name.endsWith(WORKSPACE_FILE_SUFFIX)) {
+                    workspaceFiles.push(file);
+                }
+            }
+
+            enumerator.close(null);
+        } catch (error) {
+            console.error(error as object, `Failed to scan ${dir.get_path()} for projects`);
+            return null;
+        }
+
+        for (const file of workspaceFiles) {
+            const name = file.get_basename()?.slice(0, -WORKSPACE_FILE_SUFFIX.length) ?? '';
+            projects.push({ uri: file.get_uri(), name, kind: 'code-workspace', root });
+        }
+        return subdirs;
+    }
+
+    private _watch(containers: string[]) {
+        const wanted = new Set(containers.slice(0, MAX_MONITORS));
+
+        for (const [path, monitor] of this._monitors) {
+            if (!wanted.has(path)) {
+                monitor.cancel();
+                this._monitors.delete(path);
+            }
+        }
+
+        for (const path of wanted) {
+            if (this._monitors.has(path)) continue;
+            try {
+                const monitor = Gio.File.new_for_path(path).monitor_directory(
+                    Gio.FileMonitorFlags.WATCH_MOVES,
+                    null
+                );
+                monitor.connect(
+                    'changed',
+                    (
+                        _monitor: Gio.FileMonitor,
+                        _file: Gio.File,
+                        _other: Gio.File | null,
+                        eventType: Gio.FileMonitorEvent
+                    ) => {
+                        // Only entries coming and going can add or remove a project
+                        if (
+                            eventType === Gio.FileMonitorEvent.CREATED ||
+                            eventType === Gio.FileMonitorEvent.DELETED ||
+                            eventType === Gio.FileMonitorEvent.MOVED_IN ||
+                            eventType === Gio.FileMonitorEvent.MOVED_OUT ||
+                            eventType === Gio.FileMonitorEvent.RENAMED
+                        ) {
+                            this._scheduleScan();
+                        }
+                    }
+                );
+                this._monitors.set(path, monitor);
+            } catch (error) {
+                console.error(error as object, `Failed to monitor ${path}`);
+            }
+        }
+    }
+
+    private _scheduleScan() {
+        // A clone or checkout creates many entries at once
+        if (this._changeTimeoutId) {
+            GLib.source_remove(this._changeTimeoutId);
+        }
+        this._changeTimeoutId = GLib.timeout_add_seconds(
+            GLib.PRIORITY_LOW,
+            CHANGE_DEBOUNCE_S,
+            () => {
+                this._changeTimeoutId = null;
+                this._scan();
+                return GLib.SOURCE_REMOVE;
+            }
+        );
+    }
+}
@@ -0,0 +1,131 @@
+import GLib from 'gi://GLib';
+
+export interface EditorPackage {
+    kind: 'flatpak' | 'snap';
+    id: string; // Flatpak app id or snap name
+}
+
+export interface EditorPath {
+    name: string;
+    binary: string;
+    workspacePath: string;
+    isDefault?: boolean;
+    package?: EditorPackage; // Set for sandboxed installs that must be installed to count
+    desktopIds?: string[]; // Desktop files the editor may be installed as, most likely first
+}
+
+const userConfigDir = GLib.build_filenamev([GLib.get_home_dir(), '.config']);
+const flatpakDataDir = GLib.build_filenamev([GLib.get_home_dir(), '.var/app']);
+const snapDataDir = GLib.build_filenamev([GLib.get_home_dir(), 'snap']);
+
+/**
+ * The editors found without configuration, and where each keeps its workspace storage.
+ */
+export const KNOWN_EDITORS: EditorPath[] = [
+    {
+        name: 'vscode',
+        binary: 'code',
+        workspacePath: GLib.build_filenamev([userConfigDir, 'Code/User/workspaceStorage']),
+        isDefault: true,
+        desktopIds: ['code.desktop', 'visual-studio-code.desktop', 'code-oss.desktop'],
+    },
+    {
+        name: 'codium',
+        binary: 'codium',
+        workspacePath: GLib.build_filenamev([userConfigDir, 'VSCodium/User/workspaceStorage']),
+        desktopIds: ['codium.desktop', 'vscodium.desktop'],
+    },
+    {
+        name: 'code-insiders',
+        binary: 'code-insiders',
+        workspacePath: GLib.build_filenamev([
+            userConfigDir,
+            'Code - Insiders/User/workspaceStorage',
+        ]),
+        desktopIds: ['code-insiders.desktop'],
+    },
+    {
+        name: 'cursor',
+        binary: 'cursor',
+        workspacePath: GLib.build_filenamev([userConfigDir, 'Cursor/User/workspaceStorage']),
+        desktopIds: ['cursor.desktop', 'cursor-cursor.desktop'],
+    },
+    // Flatpak installs keep their config inside the app's sandbox and are started through flatpak
+    {
+        name: 'vscode (flatpak)',
+        binary: 'flatpak run com.visualstudio.code',
+        workspacePath: GLib.build_filenamev([
+            flatpakDataDir,
+            'com.visualstudio.code/config/Code/User/workspaceStorage',
+        ]),
+        package: { kind: 'flatpak', id: 'com.visualstudio.code' },
+        desktopIds: ['com.visualstudio.code.desktop'],
+    },
+    {
+        name: 'codium (flatpak)',
+        binary: 'flatpak run com.vscodium.codium',
+        workspacePath: GLib.build_filenamev([
+            flatpakDataDir,
+            'com.vscodium.codium/config/VSCodium/User/workspaceStorage',
+        ]),
+        package: { kind: 'flatpak', id: 'com.vscodium.codium' },
+        desktopIds: ['com.vscodium.codium.desktop'],
+    },
+    {
+        name: 'code-insiders (flatpak)',
+        binary: 'flatpak run com.visualstudio.code.insiders',
+        workspacePath: GLib.build_filenamev([
+            flatpakDataDir,
+            'com.visualstudio.code.insiders/config/Code - Insiders/User/workspaceStorage',
+        ]),
+        package: { kind: 'flatpak', id: 'com.visualstudio.code.insiders' },
+        desktopIds: ['com.visualstudio.code.insiders.desktop'],
+    },
+    // Strictly confined snaps get a private $HOME under ~/snap; classic snaps share ~/.config
+    // with the entries above and are found through them
+    {
+        name: 'vscode (snap)',
+        binary: '/snap/bin/code',
+        workspacePath: GLib.build_filenamev([
+            snapDataDir,
+            'code/current/.config/Code/User/workspaceStorage',
+        ]),
+        package: { kind: 'snap', id: 'code' },
+        desktopIds: ['code_code.desktop'],
+    },
+    {
+        name: 'codium (snap)',
+        binary: '/snap/bin/codium',
+        workspacePath: GLib.build_filenamev([
+            snapDataDir,
+            'codium/current/.config/VSCodium/User/workspaceStorage',
+        ]),
+        package: { kind: 'snap', id: 'codium' },
+        desktopIds: ['codium_codium.desktop'],
+    },
+    {
+        name: 'code-insiders (snap)',
+        binary: '/snap/bin/code-insiders',
+        workspacePath: GLib.build_filenamev([
+            snapDataDir,
+            'code-insiders/current/.config/Code - Insiders/User/workspaceStorage',
+        ]),
+        package: { kind: 'snap', id: 'code-insiders' },
+        desktopIds: ['code-insiders_code-insiders.desktop'],
+    },
+];
+
+/**
+ * Whether a sandboxed editor is actually installed, rather than only having left data behind.
+ */
+export function isPackageInstalled(editorPackage: EditorPackage): boolean {
+    const installPaths =
+        editorPackage.kind === 'flatpak'
+            ? [
+                  GLib.build_filenamev([GLib.get_user_data_dir(), 'flatpak/app', editorPackage.id]),
+                  GLib.build_filenamev(['/var/lib/flatpak/app', editorPackage.id]),
+              ]
+            : [GLib.build_filenamev(['/snap', editorPackage.id, 'current'])];
+
+    return installPaths.some(path => GLib.file_test(path, GLib.FileTest.IS_DIR));
+}
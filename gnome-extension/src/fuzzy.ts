@@ -0,0 +1,67 @@
+/**
+ * Scores how well `query` matches a workspace given its display name and full path.
+ *
+ * Returns -1 when there is no match. Higher scores rank first: prefix matches on the
+ * name beat substring matches, which beat fuzzy (subsequence) matches, and matches on
+ * the name always beat matches that only hit the path.
+ */
+export function scoreWorkspaceMatch(query: string, name: string, fullPath: string): number {
+    const needle = query.trim().toLowerCase();
+    if (needle === '') return 0;
+
+    const lowerName = name.toLowerCase();
+    const lowerPath = fullPath.toLowerCase();
+
+    if (lowerName.startsWith(needle)) {
+        // Prefer the shortest names so "api" ranks above "api-gateway-legacy"
+        return 1000 - Math.min(lowerName.length, 99);
+    }
+
+    const segmentIndex = lowerPath.split('/').findIndex(segment => segment.startsWith(needle));
+    if (segmentIndex >= 0) {
+        return 800 - Math.min(segmentIndex, 99);
+    }
+
+    const nameIndex = lowerName.indexOf(needle);
+    if (nameIndex >= 0) {
+        return 600 - Math.min(nameIndex, 99);
+    }
+
+    const pathIndex = lowerPath.indexOf(needle);
+    if (pathIndex >= 0) {
+        return 400 - Math.min(pathIndex, 99);
+    }
+
+    const nameFuzzy = fuzzyScore(needle, lowerName);
+    if (nameFuzzy >= 0) {
+        return 200 + nameFuzzy;
+    }
+
+    const pathFuzzy = fuzzyScore(needle, lowerPath);
+    if (pathFuzzy >= 0) {
+        return 100 + pathFuzzy;
+    }
+
+    return -1;
+}
+
+/**
+ * Subsequence match: every character of `needle` must appear in `haystack` in order.
+ * Returns a score in [0, 99] that rewards consecutive runs, or -1 if it doesn't match.
+ */
+export function fuzzyScore(needle: string, haystack: string): number {
+    let score = 0;
+    let run = 0;
+    let position = 0;
+
+    for (const char of needle) {
+        const found = haystack.indexOf(char, position);
+        if (found < 0) return -1;
+
+        run = found === position ? run + 1 : 0;
+        score += 1 + run;
+        position = found + 1;
+    }
+
+    return Math.min(99, Math.round((score / (needle.length * 2)) * 99));
+}
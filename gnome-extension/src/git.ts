@@ -0,0 +1,238 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+/**
+ * What `git status` says about a working tree.
+ */
+export interface GitStatus {
+    branch: string; // Branch name, or the short commit id when detached
+    detached: boolean;
+    dirty: boolean; // Staged, unstaged or untracked changes
+    upstream: string | null;
+    ahead: number;
+    behind: number;
+}
+
+const STATUS_TTL_MS = 30 * 1000;
+const NOT_A_REPO_TTL_MS = 5 * 60 * 1000; // Folders that aren't repositories rarely become one
+const COMMAND_TIMEOUT_S = 5;
+const MAX_CONCURRENT = 3;
+
+interface CacheEntry {
+    status: GitStatus | null; // null when the folder is not a repository
+    checkedAt: number;
+    timedOut: boolean; // status is the previous result, or null if there was none
+}
+
+interface RunningCommand {
+    subprocess: Gio.Subprocess;
+    cancellable: Gio.Cancellable;
+    timeoutId: number | null; // null once the timeout has fired
+}
+
+/**
+ * Looks up git status for workspace folders in the background.
+ *
+ * At most a few `git` processes run at a time, each is killed after a few seconds, and
+ * results are cached so rebuilding the menu only ever reads from memory.
+ */
+export class GitStatusCache {
+    private _gitPath: string | null = GLib.find_program_in_path('git');
+    private _cache: Map<string, CacheEntry> = new Map();
+    private _listeners: Map<string, ((status: GitStatus | null) => void)[]> = new Map();
+    private _queue: string[] = [];
+    private _running: Map<string, RunningCommand> = new Map();
+
+    /**
+     * Returns the cached status of `path`, or undefined if there is none yet. A missing or
+     * outdated entry is refreshed, and `onUpdate` is called with the result once it changes.
+     */
+    lookup(
+        path: string,
+        onUpdate?: (status: GitStatus | null) => void
+    ): GitStatus | null | undefined {
+        const entry = this._cache.get(path);
+        const ttl = entry?.status === null && !entry.timedOut ? NOT_A_REPO_TTL_MS : STATUS_TTL_MS;
+
+        if (this._gitPath && (!entry || Date.now() - entry.checkedAt > ttl)) {
+            if (onUpdate) {
+                this._listeners.set(path, [...(this._listeners.get(path) ?? []), onUpdate]);
+            }
+            if (!this._running.has(path) && !this._queue.includes(path)) {
+                this._queue.push(path);
+                this._runQueue();
+            }
+        }
+
+        return entry?.status;
+    }
+
+    /**
+     * Stops every running lookup and forgets everything.
+     */
+    destroy() {
+        this._queue = [];
+        this._listeners.clear();
+        for (const { subprocess, cancellable, timeoutId } of this._running.values()) {
+            if (timeoutId) {
+                GLib.source_remove(timeoutId);
+            }
+            subprocess.force_exit();
+            cancellable.cancel();
+        }
+        this._running.clear();
+        this._cache.clear();
+    }
+
+    private _runQueue() {
+        while (this._running.size < MAX_CONCURRENT && this._queue.length > 0) {
+            this._run(this._queue.shift()!);
+        }
+    }
+
+    private _run(path: string) {
+        // Folders on unmounted drives and the like
+        if (!GLib.file_test(path, GLib.FileTest.IS_DIR)) {
+            this._finish(path, null);
+            return;
+        }
+
+        const cancellable = new Gio.Cancellable();
+        let subprocess: Gio.Subprocess;
+        try {
+            const launcher = new Gio.SubprocessLauncher({
+                flags: Gio.SubprocessFlags.STDOUT_PIPE | Gio.SubprocessFlags.STDERR_SILENCE,
+            });
+            // Don't take the index lock behind the user's back
+            launcher.setenv('GIT_OPTIONAL_LOCKS', '0', true);
+            launcher.set_cwd(path);
+            subprocess = launcher.spawnv([
+                this._gitPath!,
+                'status',
+                '--porcelain=v2',
+                '--branch',
+                '--untracked-files=normal',
+            ]);
+        } catch (error) {
+            console.error(error as object, `Failed to run git in ${path}`);
+            this._finish(path, null);
+            return;
+        }
+
+        const running: RunningCommand = { subprocess, cancellable, timeoutId: null };
+        running.timeoutId = GLib.timeout_add_seconds(
+            GLib.PRIORITY_DEFAULT,
+            COMMAND_TIMEOUT_S,
+            () => {
+                // Big repositories on slow disks; try again after the usual interval
+                running.timeoutId = null;
+                subprocess.force_exit();
+                cancellable.cancel();
+                return GLib.SOURCE_REMOVE;
+            }
+        );
+        this._running.set(path, running);
+
+        subprocess.communicate_utf8_async(null, cancellable, (_subprocess, res) => {
+            if (this._running.get(path) !== running) return; // Cancelled by destroy()
+            if (running.timeoutId) {
+                GLib.source_remove(running.timeoutId);
+            }
+            this._running.delete(path);
+
+            let status: GitStatus | null = null;
+            let timedOut = false;
+            try {
+                const [, stdout] = subprocess.communicate_utf8_finish(res);
+                if (subprocess.get_if_exited() && subprocess.get_exit_status() === 0) {
+                    status = parsePorcelainStatus(stdout ?? '');
+                }
+            } catch (_error) {
+                // Timed out; keep the previous result, if any
+                status = this._cache.get(path)?.status ?? null;
+                timedOut = true;
+            }
+
+            this._finish(path, status, timedOut);
+            this._runQueue();
+        });
+    }
+
+    private _finish(path: string, status: GitStatus | null, timedOut = false) {
+        this._cache.set(path, { status, checkedAt: Date.now(), timedOut });
+
+        const listeners = this._listeners.get(path) ?? [];
+        this._listeners.delete(path);
+        for (const listener of listeners) {
+            try {
+                listener(status);
+            } catch (error) {
+                console.error(error as object, `Failed to show git status of ${path}`);
+            }
+        }
+    }
+}
+
+/**
+ * Parses the output of `git status --porcelain=v2 --branch`.
+ */
+export function parsePorcelainStatus(output: string): GitStatus {
+    const status: GitStatus = {
+        branch: '',
+        detached: false,
+        dirty: false,
+        upstream: null,
+        ahead: 0,
+        behind: 0,
+    };
+    let oid = '';
+
+    for (const line of output.split('\n')) {
+        if (line === '') continue;
+        if (!line.startsWith('# ')) {
+            status.dirty = true;
+            continue;
+        }
+
+        const [header, ...values] = line.slice(2).split(' ');
+        switch (header) {
+            case 'branch.oid':
+                oid = values[0];
+                break;
+            case 'branch.head':
+                status.branch = values.join(' ');
+                break;
+            case 'branch.upstream':
+                status.upstream = values.join(' ');
+                break;
+            case 'branch.ab':
+                status.ahead = Math.abs(parseInt(values[0], 10)) || 0;
+                status.behind = Math.abs(parseInt(values[1], 10)) || 0;
+                break;
+        }
+    }
+
+    if (status.branch === '(detached)') {
+        status.detached = true;
+        status.branch = oid.slice(0, 7);
+    }
+    return status;
+}
+
+/**
+ * One line for tooltips, e.g. "On main, 2 ahead, 1 behind origin/main, uncommitted changes".
+ */
+export function describeGitStatus(status: GitStatus): string {
+    const parts = [status.detached ? `Detached at ${status.branch}` : `On ${status.branch}`];
+
+    if (status.upstream) {
+        parts.push(
+            status.ahead > 0 || status.behind > 0
+                ? `${status.ahead} ahead, ${status.behind} behind ${status.upstream}`
+                : `up to date with ${status.upstream}`
+        );
+    }
+
+    parts.push(status.dirty ? 'uncommitted changes' : 'clean');
+    return parts.join(', ');
+}
@@ -0,0 +1,69 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+/**
+ * How a launch ended when the CLI wrapper exited unsuccessfully.
+ */
+export interface LaunchFailure {
+    argv: string[];
+    exitStatus: number;
+    stderr: string;
+}
+
+const MAX_STDERR_LENGTH = 500;
+
+/**
+ * Splits a command line the way a POSIX shell would, without expanding anything.
+ * Throws on unbalanced quotes.
+ */
+export function splitCommandLine(text: string): string[] {
+    if (text.trim() === '') return [];
+
+    const [, argv] = GLib.shell_parse_argv(text);
+    return argv ?? [];
+}
+
+/**
+ * Turns an editor binary setting into the start of an argv. Paths are used as they are, so
+ * they may contain spaces; anything else may be a command line such as `flatpak run <app-id>`.
+ */
+export function editorCommand(binary: string): string[] {
+    return binary.includes('/') ? [binary] : splitCommandLine(binary);
+}
+
+/**
+ * Spawns `argv` without a shell and calls `onFailure` if it exits unsuccessfully. Spawn
+ * errors, such as a missing binary, are thrown.
+ *
+ * The editors' CLI wrappers hand off to the running instance and exit straight away;
+ * wrappers that stay in the foreground, like `flatpak run`, are only reported on exit.
+ */
+export function launch(
+    argv: string[],
+    onFailure: (failure: LaunchFailure) => void
+): Gio.Subprocess {
+    const subprocess = Gio.Subprocess.new(
+        argv,
+        Gio.SubprocessFlags.STDOUT_SILENCE | Gio.SubprocessFlags.STDERR_PIPE
+    );
+
+    subprocess.communicate_utf8_async(null, null, (_subprocess, res) => {
+        let stderr = '';
+        try {
+            const [, , stderrText] = subprocess.communicate_utf8_finish(res);
+            stderr = stderrText ?? '';
+        } catch (error) {
+            console.error(error as object, `Failed to read output of ${argv[0]}`);
+        }
+
+        if (subprocess.get_if_exited() && subprocess.get_exit_status() === 0) return;
+
+        onFailure({
+            argv,
+            exitStatus: subprocess.get_if_exited() ? subprocess.get_exit_status() : -1,
+            stderr: stderr.trim().slice(-MAX_STDERR_LENGTH),
+        });
+    });
+
+    return subprocess;
+}
@@ -0,0 +1,173 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+/**
+ * A drive or network share that a path lives on but that is not mounted right now.
+ */
+export interface AbsentMount {
+    root: string; // Where it is mounted when present
+    name: string;
+    volume: Gio.Volume | null; // Set when it can be mounted from here
+}
+
+const CHANGE_DEBOUNCE_MS = 1000;
+
+// Where udisks, gvfs and admins mount removable drives and shares
+const MOUNT_PARENTS = [
+    GLib.build_filenamev(['/run/media', GLib.get_user_name()]),
+    GLib.build_filenamev(['/media', GLib.get_user_name()]),
+    '/media',
+    '/mnt',
+    GLib.build_filenamev([GLib.get_user_runtime_dir(), 'gvfs']),
+];
+
+/**
+ * Tells a path on an unplugged drive or an unmounted share apart from a deleted one.
+ *
+ * Uses the volumes GIO knows about, the mount table and fstab, and, for drives that are not
+ * connected at all, the usual places they get mounted. Calls `onChange` shortly after
+ * anything is mounted or unmounted.
+ */
+export class MountTracker {
+    private _volumeMonitor: Gio.VolumeMonitor = Gio.VolumeMonitor.get();
+    private _unixMountMonitor: Gio.UnixMountMonitor = Gio.UnixMountMonitor.get();
+    private _volumeMonitorIds: number[] = [];
+    private _unixMountMonitorIds: number[] = [];
+    private _changeTimeoutId: number | null = null;
+    private _mountedRoots: Set<string> | null = null; // Cached until the next change
+
+    constructor(onChange: () => void) {
+        const changed = () => {
+            this._mountedRoots = null;
+            // Plugging in a drive adds a volume and a mount in quick succession
+            if (this._changeTimeoutId) {
+                GLib.source_remove(this._changeTimeoutId);
+            }
+            this._changeTimeoutId = GLib.timeout_add(
+                GLib.PRIORITY_DEFAULT,
+                CHANGE_DEBOUNCE_MS,
+                () => {
+                    this._changeTimeoutId = null;
+                    onChange();
+                    return GLib.SOURCE_REMOVE;
+                }
+            );
+        };
+
+        this._volumeMonitorIds = [
+            'mount-added',
+            'mount-removed',
+            'volume-added',
+            'volume-removed',
+        ].map(signal => this._volumeMonitor.connect(signal, changed));
+        this._unixMountMonitorIds = ['mounts-changed', 'mountpoints-changed'].map(signal =>
+            this._unixMountMonitor.connect(signal, changed)
+        );
+    }
+
+    destroy() {
+        this._volumeMonitorIds.forEach(id => this._volumeMonitor.disconnect(id));
+        this._unixMountMonitorIds.forEach(id => this._unixMountMonitor.disconnect(id));
+        this._volumeMonitorIds = [];
+        this._unixMountMonitorIds = [];
+        if (this._changeTimeoutId) {
+            GLib.source_remove(this._changeTimeoutId);
+            this._changeTimeoutId = null;
+        }
+        this._mountedRoots = null;
+    }
+
+    /**
+     * Returns the absent mount `path` would be on, or null if its filesystem is present, in
+     * which case a missing path really is gone.
+     */
+    findAbsentMount(path: string): AbsentMount | null {
+        const candidates: AbsentMount[] = [];
+
+        for (const volume of this._volumeMonitor.get_volumes()) {
+            if (volume.get_mount()) continue;
+            for (const root of expectedRoots(volume)) {
+                candidates.push({ root, name: volume.get_name(), volume });
+            }
+        }
+
+        const [mountPoints] = Gio.unix_mount_points_get();
+        for (const mountPoint of mountPoints ?? []) {
+            candidates.push({
+                root: mountPoint.get_mount_path(),
+                name: mountPoint.guess_name(),
+                volume: null,
+            });
+        }
+
+        // A drive that is unplugged has no volume; its mount point is gone or left empty
+        for (const parent of MOUNT_PARENTS) {
+            if (!isWithin(path, parent)) continue;
+            const name = path.slice(parent.length + 1).split('/')[0];
+            const root = GLib.build_filenamev([parent, name]);
+            if (name !== '' && root !== path && isMissingOrEmpty(root)) {
+                candidates.push({ root, name, volume: null });
+            }
+        }
+
+        const mounted = this._getMountedRoots();
+        // The innermost mount wins; on a tie, the one with a volume to mount
+        return (
+            candidates
+                .filter(({ root }) => isWithin(path, root) && !mounted.has(root))
+                .sort((a, b) => b.root.length - a.root.length)[0] ?? null
+        );
+    }
+
+    private _getMountedRoots(): Set<string> {
+        if (!this._mountedRoots) {
+            const [mounts] = Gio.unix_mounts_get();
+            this._mountedRoots = new Set([
+                ...(mounts ?? []).map(mount => Gio.unix_mount_get_mount_path(mount)),
+                ...this._volumeMonitor
+                    .get_mounts()
+                    .map(mount => mount.get_root().get_path())
+                    .filter((root): root is string => !!root),
+            ]);
+        }
+        return this._mountedRoots;
+    }
+}
+
+// udisks mounts under the label, or the UUID for volumes without one
+function expectedRoots(volume: Gio.Volume): string[] {
+    const roots: string[] = [];
+    const activationRoot = volume.get_activation_root()?.get_path();
+    if (activationRoot) {
+        roots.push(activationRoot);
+    }
+
+    const names = [volume.get_identifier('label'), volume.get_identifier('uuid')].filter(
+        (name): name is string => !!name
+    );
+    for (const parent of MOUNT_PARENTS.slice(0, 2)) {
+        roots.push(...names.map(name => GLib.build_filenamev([parent, name])));
+    }
+    return roots;
+}
+
+function isWithin(path: string, root: string): boolean {
+    return root.startsWith('/') && root !== '/' && (path === root || path.startsWith(`${root}/`));
+}
+
+function isMissingOrEmpty(directory: string): boolean {
+    if (!GLib.file_test(directory, GLib.FileTest.IS_DIR)) return true;
+    try {
+        const enumerator = Gio.File.new_for_path(directory).enumerate_children(
+            'standard::name',
+            Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+            null
+        );
+        const empty = enumerator.next_file(null) === null;
+        enumerator.close(null);
+        return empty;
+    } catch (_error) {
+        // Unreadable, like an automount point that failed
+        return true;
+    }
+}
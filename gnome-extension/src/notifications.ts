@@ -0,0 +1,135 @@
+import Gio from 'gi://Gio';
+import * as Config from 'resource:///org/gnome/shell/misc/config.js';
+import * as Main from 'resource:///org/gnome/shell/ui/main.js';
+import * as MessageTray from 'resource:///org/gnome/shell/ui/messageTray.js';
+
+/**
+ * Kinds of events that can notify; the `notification-events` setting lists the enabled ones.
+ */
+export type NotificationKind = 'launch' | 'cleanup' | 'error';
+
+export type NotificationSeverity = 'info' | 'warning' | 'error';
+
+export interface NotificationAction {
+    label: string;
+    callback: () => void;
+}
+
+export interface NotificationOptions {
+    kind: NotificationKind;
+    severity: NotificationSeverity;
+    title: string;
+    body?: string;
+    actions?: NotificationAction[];
+}
+
+const SEVERITY_URGENCY: Record<NotificationSeverity, MessageTray.Urgency> = {
+    info: MessageTray.Urgency.LOW,
+    warning: MessageTray.Urgency.NORMAL,
+    error: MessageTray.Urgency.HIGH,
+};
+
+// GNOME 45 builds sources and notifications from positional arguments and has no addNotification
+const LEGACY_MESSAGE_TRAY = parseInt(Config.PACKAGE_VERSION, 10) < 46;
+
+/**
+ * Posts notifications to the message tray under a source of our own, created on first use so
+ * the extension doesn't show up in the notification list until it has something to say.
+ */
+export class WorkspaceNotifier {
+    private _title: string;
+    private _icon: Gio.Icon | null;
+    private _source: MessageTray.Source | null = null;
+    private _enabledKinds: Set<NotificationKind> = new Set();
+
+    constructor(title: string, icon: Gio.Icon | null) {
+        this._title = title;
+        this._icon = icon;
+    }
+
+    setEnabledKinds(kinds: NotificationKind[]) {
+        this._enabledKinds = new Set(kinds);
+    }
+
+    setIcon(icon: Gio.Icon | null) {
+        this._icon = icon;
+        if (this._source && icon && !LEGACY_MESSAGE_TRAY) {
+            this._source.icon = icon;
+        }
+    }
+
+    notify(options: NotificationOptions): MessageTray.Notification | null {
+        if (!this._enabledKinds.has(options.kind)) return null;
+
+        const source = this._getSource();
+        const iconName = options.severity === 'info' ? null : `dialog-${options.severity}-symbolic`;
+        const notification = LEGACY_MESSAGE_TRAY
+            ? this._createLegacyNotification(source, options, iconName)
+            : new MessageTray.Notification({
+                  source,
+                  title: options.title,
+                  body: options.body ?? null,
+                  urgency: SEVERITY_URGENCY[options.severity],
+                  iconName,
+                  isTransient: options.severity === 'info',
+              });
+
+        for (const action of options.actions ?? []) {
+            notification.addAction(action.label, action.callback);
+        }
+
+        if (LEGACY_MESSAGE_TRAY) {
+            (source as any).showNotification(notification);
+        } else {
+            source.addNotification(notification);
+        }
+        return notification;
+    }
+
+    destroy() {
+        this._source?.destroy(MessageTray.NotificationDestroyedReason.SOURCE_CLOSED);
+        this._source = null;
+    }
+
+    private _getSource(): MessageTray.Source {
+        if (this._source) return this._source;
+
+        this._source = LEGACY_MESSAGE_TRAY
+            ? this._createLegacySource()
+            : new MessageTray.Source({
+                  title: this._title,
+                  policy: new MessageTray.NotificationGenericPolicy(),
+                  ...(this._icon ? { icon: this._icon } : { iconName: 'code' }),
+              });
+        // The user can close the source from the tray; a new one is made on the next notification
+        this._source.connect('destroy', () => {
+            this._source = null;
+        });
+        Main.messageTray.add(this._source);
+
+        return this._source;
+    }
+
+    private _createLegacySource(): MessageTray.Source {
+        const source = new (MessageTray.Source as any)(this._title, 'code');
+        // GNOME 45 sources draw their icon from getIcon(), which only knows about iconName
+        source.getIcon = () => this._icon ?? new Gio.ThemedIcon({ name: 'code' });
+        return source;
+    }
+
+    private _createLegacyNotification(
+        source: MessageTray.Source,
+        options: NotificationOptions,
+        iconName: string | null
+    ): MessageTray.Notification {
+        const notification = new (MessageTray.Notification as any)(
+            source,
+            options.title,
+            options.body ?? null,
+            iconName ? { gicon: new Gio.ThemedIcon({ name: iconName }) } : {}
+        );
+        notification.setUrgency(SEVERITY_URGENCY[options.severity]);
+        notification.setTransient(options.severity === 'info');
+        return notification;
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Per-workspace launch settings that take precedence over the global ones.
+ */
+export interface WorkspaceOverride {
+    editor?: string; // Binary name or full path
+    args?: string; // Replaces the global custom-cmd-args
+    newWindow?: boolean; // Unset means "use the global new-window setting"
+}
+
+/**
+ * Converts the unpacked `workspace-overrides` (a{sa{ss}}) setting into a map of workspace
+ * URI to override.
+ */
+export function unpackWorkspaceOverrides(
+    dict: Record<string, Record<string, string>> | null | undefined
+): Map<string, WorkspaceOverride> {
+    const overrides = new Map<string, WorkspaceOverride>();
+    for (const [uri, values] of Object.entries(dict ?? {})) {
+        const override: WorkspaceOverride = {};
+        if (values.editor) override.editor = values.editor;
+        if (values.args) override.args = values.args;
+        if (values['new-window'] === 'true' || values['new-window'] === 'false') {
+            override.newWindow = values['new-window'] === 'true';
+        }
+        if (!isEmptyOverride(override)) {
+            overrides.set(uri, override);
+        }
+    }
+    return overrides;
+}
+
+/**
+ * Converts a map of workspace URI to override back into the a{sa{ss}} dictionary,
+ * dropping overrides that no longer change anything.
+ */
+export function packWorkspaceOverrides(
+    overrides: Map<string, WorkspaceOverride>
+): Record<string, Record<string, string>> {
+    const dict: Record<string, Record<string, string>> = {};
+    for (const [uri, override] of overrides) {
+        if (isEmptyOverride(override)) continue;
+
+        const values: Record<string, string> = {};
+        if (override.editor) values.editor = override.editor;
+        if (override.args) values.args = override.args;
+        if (override.newWindow !== undefined) values['new-window'] = String(override.newWindow);
+        dict[uri] = values;
+    }
+    return dict;
+}
+
+export function isEmptyOverride(override: WorkspaceOverride): boolean {
+    return !override.editor && !override.args && override.newWindow === undefined;
+}
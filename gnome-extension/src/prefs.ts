@@ -1,11 +1,16 @@
 import Gtk from 'gi://Gtk';
+import Gdk from 'gi://Gdk';
 import Adw from 'gi://Adw';
 import Gio from 'gi://Gio';
+import GObject from 'gi://GObject';
 import {
     ExtensionPreferences,
     gettext as _,
 } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
 import GLib from 'gi://GLib';
+import { WorkspaceBackup, listBackups, restoreBackup } from './backups.js';
+import { ParsedState, applyState, exportState, parseState } from './stateFile.js';
+import { createWorkspacesPage } from './workspacesPage.js';
 
 export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
     // Define the _saveSettings method as a class property with initial empty implementation
@@ -81,6 +86,11 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
             subtitle: _('Whether to prefer the workspace file over the workspace directory if a workspace file is present'),
         });
 
+        const unifiedEditorView = new Adw.SwitchRow({
+            title: _('Show All Editors'),
+            subtitle: _('Merge workspaces from every detected editor into one list and open each with the editor it belongs to'),
+        });
+
         const customCmdArgs = new Adw.EntryRow({
             title: _('Custom CMD Args'),
             showApplyButton: true,
@@ -94,6 +104,7 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
         editorGroup.add(editorLocationHintRow);
         editorGroup.add(editorLocation);
         editorGroup.add(preferWorkspaceFile);
+        editorGroup.add(unifiedEditorView);
         editorGroup.add(debug);
         editorGroup.add(customCmdArgs);
         page.add(editorGroup);
@@ -139,6 +150,310 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
         });
         iconGroup.add(iconInfoRow);
 
+        // Group for Menu settings
+        const menuGroup = new Adw.PreferencesGroup({
+            title: _('Menu'),
+            description: _('Configure how workspaces are listed in the menu'),
+        });
+        page.add(menuGroup);
+
+        // Keep the order in sync with the choices of sort-mode
+        const sortModes = ['recent', 'name', 'path', 'parent', 'frequency'];
+        const sortModeRow = new Adw.ComboRow({
+            title: _('Sort By'),
+            subtitle: _('Order of favorites and recent workspaces'),
+            model: Gtk.StringList.new([
+                _('Last Opened'),
+                _('Name'),
+                _('Full Path'),
+                _('Parent Directory'),
+                _('Open Count'),
+            ]),
+        });
+        const syncSortModeRow = () => {
+            sortModeRow.set_selected(Math.max(0, sortModes.indexOf(_settings.get_string('sort-mode'))));
+        };
+        syncSortModeRow();
+        sortModeRow.connect('notify::selected', () => {
+            const sortMode = sortModes[sortModeRow.get_selected()];
+            if (sortMode !== _settings.get_string('sort-mode')) {
+                _settings.set_string('sort-mode', sortMode);
+            }
+        });
+        // Also changed from the panel menu and by an import while this window is open
+        _settings.connect('changed::sort-mode', syncSortModeRow);
+        menuGroup.add(sortModeRow);
+
+        // Group for the overview search provider
+        const searchGroup = new Adw.PreferencesGroup({
+            title: _('Overview Search'),
+            description: _('Show workspaces when searching from the Activities overview'),
+        });
+        page.add(searchGroup);
+
+        const searchProviderSwitch = new Adw.SwitchRow({
+            title: _('Search Workspaces'),
+            subtitle: _('Match workspace names and paths in the overview search'),
+        });
+        searchGroup.add(searchProviderSwitch);
+        _settings.bind('search-provider-enabled', searchProviderSwitch, 'active', Gio.SettingsBindFlags.DEFAULT);
+
+        const searchMaxResultsRow = Adw.SpinRow.new_with_range(1, 50, 1);
+        searchMaxResultsRow.set_title(_('Maximum Results'));
+        searchGroup.add(searchMaxResultsRow);
+        _settings.bind('search-provider-max-results', searchMaxResultsRow, 'value', Gio.SettingsBindFlags.DEFAULT);
+        searchProviderSwitch.bind_property('active', searchMaxResultsRow, 'sensitive', GObject.BindingFlags.SYNC_CREATE);
+
+        // Group for the quick switcher shortcut
+        const shortcutGroup = new Adw.PreferencesGroup({
+            title: _('Keyboard Shortcut'),
+            description: _('Open a quick switcher dialog from anywhere'),
+        });
+        page.add(shortcutGroup);
+
+        const shortcutLabel = new Gtk.ShortcutLabel({
+            accelerator: _settings.get_strv('quick-switcher-shortcut')[0] ?? '',
+            disabled_text: _('Disabled'),
+            valign: Gtk.Align.CENTER,
+        });
+        const shortcutRow = new Adw.ActionRow({
+            title: _('Quick Switcher'),
+            subtitle: _('Click to change, Backspace in the dialog disables it'),
+            activatable: true,
+        });
+        shortcutRow.add_suffix(shortcutLabel);
+        shortcutGroup.add(shortcutRow);
+
+        _settings.connect('changed::quick-switcher-shortcut', () => {
+            shortcutLabel.set_accelerator(_settings.get_strv('quick-switcher-shortcut')[0] ?? '');
+        });
+
+        shortcutRow.connect('activated', () => {
+            const dialog = new Adw.MessageDialog({
+                transient_for: window,
+                heading: _('Set Shortcut'),
+                body: _('Press the new shortcut, Escape to cancel or Backspace to disable it.'),
+            });
+            dialog.add_response('cancel', _('Cancel'));
+
+            const keyController = new Gtk.EventControllerKey();
+            keyController.connect('key-pressed', (_controller: Gtk.EventControllerKey, keyval: number, keycode: number, state: number) => {
+                const mask = state & Gtk.accelerator_get_default_mod_mask();
+
+                if (mask === 0 && keyval === Gdk.KEY_Escape) {
+                    dialog.close();
+                    return Gdk.EVENT_STOP;
+                }
+                if (mask === 0 && keyval === Gdk.KEY_BackSpace) {
+                    _settings.set_strv('quick-switcher-shortcut', []);
+                    dialog.close();
+                    return Gdk.EVENT_STOP;
+                }
+                // A bare key would swallow normal typing everywhere, so insist on a modifier
+                if (mask === 0 || !Gtk.accelerator_valid(keyval, mask)) {
+                    return Gdk.EVENT_STOP;
+                }
+
+                _settings.set_strv('quick-switcher-shortcut', [
+                    Gtk.accelerator_name_with_keycode(null, keyval, keycode, mask),
+                ]);
+                dialog.close();
+                return Gdk.EVENT_STOP;
+            });
+            dialog.add_controller(keyController);
+            dialog.present();
+        });
+
+        // Group for Workspace Sources
+        const sourcesGroup = new Adw.PreferencesGroup({
+            title: _('Workspace Sources'),
+            description: _('Where the list of recent workspaces is read from'),
+        });
+        page.add(sourcesGroup);
+
+        const globalStorageSwitch = new Adw.SwitchRow({
+            title: _('Read Recently Opened History'),
+            subtitle: _("Also read the editor's own history from globalStorage/storage.json"),
+        });
+        sourcesGroup.add(globalStorageSwitch);
+
+        // Keep the order in sync with the choices of preferred-workspace-source
+        const sourceIds = ['workspace-storage', 'global-storage'];
+        const preferredSourceRow = new Adw.ComboRow({
+            title: _('Preferred Source'),
+            subtitle: _('Which source decides the ordering when both know a workspace'),
+            model: Gtk.StringList.new([_('Workspace Storage'), _('Recently Opened History')]),
+        });
+        const syncPreferredSourceRow = () => {
+            preferredSourceRow.set_selected(Math.max(0, sourceIds.indexOf(_settings.get_string('preferred-workspace-source'))));
+        };
+        syncPreferredSourceRow();
+        preferredSourceRow.connect('notify::selected', () => {
+            const source = sourceIds[preferredSourceRow.get_selected()];
+            if (source !== _settings.get_string('preferred-workspace-source')) {
+                _settings.set_string('preferred-workspace-source', source);
+            }
+        });
+        _settings.connect('changed::preferred-workspace-source', syncPreferredSourceRow);
+        sourcesGroup.add(preferredSourceRow);
+
+        _settings.bind(
+            'use-global-storage',
+            globalStorageSwitch,
+            'active',
+            Gio.SettingsBindFlags.DEFAULT
+        );
+
+        // Group for workspaces added by hand
+        const pinnedGroup = new Adw.PreferencesGroup({
+            title: _('Pinned Workspaces'),
+            description: _('Folders and .code-workspace files that are always listed, even without editor storage'),
+        });
+        page.add(pinnedGroup);
+
+        const newPinnedRow = new Adw.EntryRow({
+            title: _('Add Workspace (path or URI)'),
+            showApplyButton: true,
+        });
+        pinnedGroup.add(newPinnedRow);
+
+        let pinnedRows: Adw.ActionRow[] = [];
+        const refreshPinnedRows = () => {
+            pinnedRows.forEach(row => pinnedGroup.remove(row));
+            pinnedRows = [];
+
+            for (const uri of _settings.get_strv('pinned-workspaces')) {
+                const row = new Adw.ActionRow({
+                    title: decodeURIComponent(uri).replace('file://', '').replace(GLib.get_home_dir(), '~'),
+                });
+                const removeButton = new Gtk.Button({
+                    icon_name: 'user-trash-symbolic',
+                    valign: Gtk.Align.CENTER,
+                    tooltip_text: _('Unpin'),
+                    css_classes: ['flat'],
+                });
+                removeButton.connect('clicked', () => {
+                    _settings.set_strv(
+                        'pinned-workspaces',
+                        _settings.get_strv('pinned-workspaces').filter(pinnedUri => pinnedUri !== uri)
+                    );
+                });
+                row.add_suffix(removeButton);
+
+                pinnedGroup.add(row);
+                pinnedRows.push(row);
+            }
+        };
+        refreshPinnedRows();
+
+        // Also pinned and unpinned from the panel menu while this window is open
+        _settings.connect('changed::pinned-workspaces', refreshPinnedRows);
+
+        newPinnedRow.connect('apply', () => {
+            const text = newPinnedRow.get_text().trim();
+            if (text === '') return;
+
+            const uri = text.includes('://')
+                ? text
+                : Gio.File.new_for_path(text.replace(/^~/, GLib.get_home_dir())).get_uri();
+            if (uri.startsWith('file://') && !Gio.File.new_for_uri(uri).query_exists(null)) {
+                window.add_toast(new Adw.Toast({ title: `${text} ${_('does not exist')}` }));
+                return;
+            }
+
+            const pinned = _settings.get_strv('pinned-workspaces');
+            if (!pinned.includes(uri)) {
+                _settings.set_strv('pinned-workspaces', [...pinned, uri]);
+            }
+            newPinnedRow.set_text('');
+        });
+
+        // Group for finding projects no editor has opened yet
+        const discoveryGroup = new Adw.PreferencesGroup({
+            title: _('Project Discovery'),
+            description: _('Search directories for git repositories and .code-workspace files, listed under "Discovered Projects"'),
+        });
+        page.add(discoveryGroup);
+
+        const depthRow = Adw.SpinRow.new_with_range(1, 10, 1);
+        depthRow.set_title(_('Search Depth'));
+        depthRow.set_subtitle(_('Directory levels below each root'));
+        _settings.bind('discovery-max-depth', depthRow, 'value', Gio.SettingsBindFlags.DEFAULT);
+        discoveryGroup.add(depthRow);
+
+        const intervalRow = Adw.SpinRow.new_with_range(5, 1440, 5);
+        intervalRow.set_title(_('Rescan Interval'));
+        intervalRow.set_subtitle(_('Minutes between full rescans; new and removed folders are noticed sooner'));
+        _settings.bind('discovery-interval', intervalRow, 'value', Gio.SettingsBindFlags.DEFAULT);
+        discoveryGroup.add(intervalRow);
+
+        const ignoreRow = new Adw.EntryRow({
+            title: _('Ignored Directories (comma separated patterns)'),
+            text: _settings.get_strv('discovery-ignore').join(', '),
+            showApplyButton: true,
+        });
+        ignoreRow.connect('apply', () => {
+            const patterns = ignoreRow.get_text().split(',')
+                .map(pattern => pattern.trim())
+                .filter(pattern => pattern.length > 0);
+            _settings.set_strv('discovery-ignore', patterns);
+        });
+        _settings.connect('changed::discovery-ignore', () => {
+            ignoreRow.set_text(_settings.get_strv('discovery-ignore').join(', '));
+        });
+        discoveryGroup.add(ignoreRow);
+
+        const newRootRow = new Adw.EntryRow({
+            title: _('Add Root Directory'),
+            showApplyButton: true,
+        });
+        discoveryGroup.add(newRootRow);
+
+        let rootRows: Adw.ActionRow[] = [];
+        const refreshRootRows = () => {
+            rootRows.forEach(row => discoveryGroup.remove(row));
+            rootRows = [];
+
+            for (const root of _settings.get_strv('discovery-roots')) {
+                const row = new Adw.ActionRow({ title: root.replace(GLib.get_home_dir(), '~') });
+                const removeButton = new Gtk.Button({
+                    icon_name: 'user-trash-symbolic',
+                    valign: Gtk.Align.CENTER,
+                    tooltip_text: _('Remove Root'),
+                    css_classes: ['flat'],
+                });
+                removeButton.connect('clicked', () => {
+                    _settings.set_strv(
+                        'discovery-roots',
+                        _settings.get_strv('discovery-roots').filter(other => other !== root)
+                    );
+                });
+                row.add_suffix(removeButton);
+
+                discoveryGroup.add(row);
+                rootRows.push(row);
+            }
+        };
+        refreshRootRows();
+        _settings.connect('changed::discovery-roots', refreshRootRows);
+
+        newRootRow.connect('apply', () => {
+            const text = newRootRow.get_text().trim();
+            if (text === '') return;
+
+            const root = text.replace(/^~/, GLib.get_home_dir());
+            if (!GLib.file_test(root, GLib.FileTest.IS_DIR)) {
+                window.add_toast(new Adw.Toast({ title: `${text} ${_('is not a directory')}` }));
+                return;
+            }
+
+            const roots = _settings.get_strv('discovery-roots');
+            if (!roots.includes(root)) {
+                _settings.set_strv('discovery-roots', [...roots, root]);
+            }
+            newRootRow.set_text('');
+        });
+
         // Add new group for Cleanup Settings at end of fillPreferencesWindow
 
         const cleanupGroup = new Adw.PreferencesGroup({
@@ -149,10 +464,43 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
         // Switch row for Cleanup Orphaned Workspaces
         const cleanupSwitch = new Adw.SwitchRow({
             title: _('Cleanup Orphaned Workspaces'),
-            subtitle: _('Enable automatic cleanup of orphaned workspace directories'),
+            subtitle: _('Look for workspaces whose folder no longer exists'),
         });
         cleanupGroup.add(cleanupSwitch);
 
+        // Keep the order in sync with the choices of orphan-cleanup-mode
+        const orphanModes = ['review', 'auto'];
+        const orphanModeRow = new Adw.ComboRow({
+            title: _('Cleanup Mode'),
+            subtitle: _('Review lists them in the menu until you confirm; Automatic trashes them after a delay'),
+            model: Gtk.StringList.new([_('Review'), _('Automatic')]),
+        });
+        const syncOrphanModeRow = () => {
+            orphanModeRow.set_selected(Math.max(0, orphanModes.indexOf(_settings.get_string('orphan-cleanup-mode'))));
+        };
+        syncOrphanModeRow();
+        orphanModeRow.connect('notify::selected', () => {
+            const mode = orphanModes[orphanModeRow.get_selected()];
+            if (mode !== _settings.get_string('orphan-cleanup-mode')) {
+                _settings.set_string('orphan-cleanup-mode', mode);
+            }
+        });
+        _settings.connect('changed::orphan-cleanup-mode', syncOrphanModeRow);
+        cleanupGroup.add(orphanModeRow);
+
+        const orphanDaysRow = Adw.SpinRow.new_with_range(1, 365, 1);
+        orphanDaysRow.set_title(_('Days Before Trashing'));
+        orphanDaysRow.set_subtitle(_('How long a workspace must stay orphaned in Automatic mode'));
+        _settings.bind('orphan-cleanup-days', orphanDaysRow, 'value', Gio.SettingsBindFlags.DEFAULT);
+        cleanupGroup.add(orphanDaysRow);
+
+        const updateOrphanRows = () => {
+            orphanModeRow.set_sensitive(cleanupSwitch.get_active());
+            orphanDaysRow.set_sensitive(cleanupSwitch.get_active() && orphanModeRow.get_selected() === 1);
+        };
+        cleanupSwitch.connect('notify::active', updateOrphanRows);
+        orphanModeRow.connect('notify::selected', updateOrphanRows);
+
         // Entry row for No-fail Workspaces (comma separated)
         const nofailEntry = new Adw.EntryRow({
             title: _('No-fail Workspaces'),
@@ -167,6 +515,242 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
 
         page.add(cleanupGroup);
 
+        // Group for "Clear Workspaces" backups
+        const backupsGroup = new Adw.PreferencesGroup({
+            title: _('Backups'),
+            description: _('Copies of workspace storage taken before each "Clear Workspaces"'),
+        });
+        page.add(backupsGroup);
+
+        const retentionRow = Adw.SpinRow.new_with_range(1, 50, 1);
+        retentionRow.set_title(_('Backups to Keep'));
+        retentionRow.set_subtitle(_('Older backups are deleted, per editor'));
+        _settings.bind('backup-retention', retentionRow, 'value', Gio.SettingsBindFlags.DEFAULT);
+        backupsGroup.add(retentionRow);
+
+        const confirmRestore = (backup: WorkspaceBackup, onRestored: () => void) => {
+            const dialog = new Adw.MessageDialog({
+                transient_for: window,
+                heading: _('Restore Backup?'),
+                body: `${_('The current workspace storage will be replaced with this backup. It is backed up first, so this can be undone.')} (${backup.editor})`,
+            });
+            dialog.add_response('cancel', _('Cancel'));
+            dialog.add_response('restore', _('Restore'));
+            dialog.set_response_appearance('restore', Adw.ResponseAppearance.DESTRUCTIVE);
+            dialog.set_default_response('cancel');
+            dialog.connect('response', (_dialog: Adw.MessageDialog, response: string) => {
+                if (response !== 'restore') return;
+                restoreBackup(backup, backup.editor, _settings.get_int('backup-retention'), error => {
+                    if (error) {
+                        console.error(error as object, `Failed to restore backup ${backup.path}`);
+                        window.add_toast(new Adw.Toast({ title: _('Failed to restore backup') }));
+                        return;
+                    }
+                    onRestored();
+                });
+            });
+            dialog.present();
+        };
+
+        let backupRows: Adw.ActionRow[] = [];
+        const refreshBackupRows = () => {
+            backupRows.forEach(row => backupsGroup.remove(row));
+            backupRows = [];
+
+            let backups: WorkspaceBackup[] = [];
+            try {
+                backups = listBackups();
+            } catch (error) {
+                console.error(error as object, 'Failed to list backups');
+            }
+
+            if (backups.length === 0) {
+                const emptyRow = new Adw.ActionRow({ title: _('No backups yet') });
+                backupsGroup.add(emptyRow);
+                backupRows.push(emptyRow);
+                return;
+            }
+
+            for (const backup of backups) {
+                const createdAt = GLib.DateTime.new_from_unix_local(backup.createdAt)?.format('%x %X') ?? '';
+                const row = new Adw.ActionRow({
+                    title: `${createdAt} (${backup.editor})`,
+                    subtitle: `${backup.entryCount} ${_('entries')}, ${GLib.format_size(backup.size)}`,
+                });
+
+                const restoreButton = new Gtk.Button({
+                    label: _('Restore'),
+                    valign: Gtk.Align.CENTER,
+                });
+                restoreButton.connect('clicked', () => confirmRestore(backup, refreshBackupRows));
+                row.add_suffix(restoreButton);
+
+                backupsGroup.add(row);
+                backupRows.push(row);
+            }
+        };
+
+        refreshBackupRows();
+
+        // Group for Notifications
+        const notificationsGroup = new Adw.PreferencesGroup({
+            title: _('Notifications'),
+            description: _('Choose which events show a desktop notification'),
+        });
+        page.add(notificationsGroup);
+
+        const notificationKinds: [string, string, string][] = [
+            ['launch', _('Launch Failures'), _('An editor could not be started')],
+            ['cleanup', _('Cleanup'), _('Workspaces were cleared, trashed or could not be removed')],
+            ['error', _('Other Errors'), _('Any other failure, such as a failed backup')],
+        ];
+        for (const [kind, title, subtitle] of notificationKinds) {
+            const row = new Adw.SwitchRow({ title, subtitle });
+            row.set_active(_settings.get_strv('notification-events').includes(kind));
+            row.connect('notify::active', () => {
+                const events = new Set(_settings.get_strv('notification-events'));
+                if (events.has(kind) === row.get_active()) return;
+
+                if (row.get_active()) {
+                    events.add(kind);
+                } else {
+                    events.delete(kind);
+                }
+                _settings.set_strv('notification-events', Array.from(events));
+            });
+            _settings.connect('changed::notification-events', () => {
+                row.set_active(_settings.get_strv('notification-events').includes(kind));
+            });
+            notificationsGroup.add(row);
+        }
+
+        // Group for moving all settings and workspace data to another machine
+        const transferGroup = new Adw.PreferencesGroup({
+            title: _('Export & Import'),
+            description: _('Settings, favorites, tags, overrides and other workspace data as one JSON file'),
+        });
+        page.add(transferGroup);
+
+        const jsonFilter = new Gtk.FileFilter({ name: _('JSON files') });
+        jsonFilter.add_mime_type('application/json');
+        jsonFilter.add_pattern('*.json');
+        const fileFilters = new Gio.ListStore({ item_type: Gtk.FileFilter.$gtype });
+        fileFilters.append(jsonFilter);
+
+        const exportRow = new Adw.ActionRow({
+            title: _('Export'),
+            subtitle: _('Save everything to a file'),
+        });
+        const exportButton = new Gtk.Button({ label: _('Export…'), valign: Gtk.Align.CENTER });
+        exportRow.add_suffix(exportButton);
+        transferGroup.add(exportRow);
+
+        exportButton.connect('clicked', () => {
+            const dialog = new Gtk.FileDialog({
+                title: _('Export Settings'),
+                initial_name: `vscode-workspaces-${GLib.DateTime.new_now_local().format('%Y%m%d')}.json`,
+                filters: fileFilters,
+            });
+            // The typings lack the callback overloads of the async file dialog methods
+            (dialog as any).save(window, null, (_dialog: Gtk.FileDialog, res: Gio.AsyncResult) => {
+                let file: Gio.File | null = null;
+                try {
+                    file = dialog.save_finish(res);
+                } catch (_error) {
+                    return; // Cancelled
+                }
+                if (!file) return;
+
+                try {
+                    const contents = JSON.stringify(exportState(_settings), null, 2);
+                    file.replace_contents(
+                        new TextEncoder().encode(contents),
+                        null,
+                        false,
+                        Gio.FileCreateFlags.REPLACE_DESTINATION,
+                        null
+                    );
+                    window.add_toast(new Adw.Toast({ title: _('Settings exported') }));
+                } catch (error) {
+                    console.error(error as object, `Failed to export settings to ${file.get_path()}`);
+                    window.add_toast(new Adw.Toast({ title: _('Failed to export settings') }));
+                }
+            });
+        });
+
+        const showImportError = (message: string) => {
+            const dialog = new Adw.MessageDialog({
+                transient_for: window,
+                heading: _('Cannot Import File'),
+                body: message,
+            });
+            dialog.add_response('close', _('Close'));
+            dialog.present();
+        };
+
+        const confirmImport = (parsed: ParsedState) => {
+            const workspaceCount = Object.keys(parsed.state.workspaces).length;
+            const skippedNote = parsed.skipped.length > 0
+                ? `\n\n${_('Unknown settings that will be ignored:')} ${parsed.skipped.join(', ')}`
+                : '';
+            const dialog = new Adw.MessageDialog({
+                transient_for: window,
+                heading: _('Import Settings?'),
+                body: `${_('Merge adds the workspace data to what you have and takes the global settings from the file. Replace makes everything match the file.')}\n\n${_('Workspaces in the file:')} ${workspaceCount}${skippedNote}`,
+            });
+            dialog.add_response('cancel', _('Cancel'));
+            dialog.add_response('merge', _('Merge'));
+            dialog.add_response('replace', _('Replace'));
+            dialog.set_response_appearance('merge', Adw.ResponseAppearance.SUGGESTED);
+            dialog.set_response_appearance('replace', Adw.ResponseAppearance.DESTRUCTIVE);
+            dialog.set_default_response('cancel');
+            dialog.connect('response', (_dialog: Adw.MessageDialog, response: string) => {
+                if (response !== 'merge' && response !== 'replace') return;
+                try {
+                    applyState(_settings, parsed, response);
+                } catch (error) {
+                    console.error(error as object, 'Failed to import settings');
+                    window.add_toast(new Adw.Toast({ title: _('Failed to import settings') }));
+                    return;
+                }
+
+                window.add_toast(new Adw.Toast({ title: _('Settings imported') }));
+            });
+            dialog.present();
+        };
+
+        const importRow = new Adw.ActionRow({
+            title: _('Import'),
+            subtitle: _('Load a file made with Export'),
+        });
+        const importButton = new Gtk.Button({ label: _('Import…'), valign: Gtk.Align.CENTER });
+        importRow.add_suffix(importButton);
+        transferGroup.add(importRow);
+
+        importButton.connect('clicked', () => {
+            const dialog = new Gtk.FileDialog({ title: _('Import Settings'), filters: fileFilters });
+            (dialog as any).open(window, null, (_dialog: Gtk.FileDialog, res: Gio.AsyncResult) => {
+                let file: Gio.File | null = null;
+                try {
+                    file = dialog.open_finish(res);
+                } catch (_error) {
+                    return; // Cancelled
+                }
+                if (!file) return;
+
+                let parsed: ParsedState;
+                try {
+                    const [, contents] = file.load_contents(null);
+                    parsed = parseState(new TextDecoder().decode(contents), _settings);
+                } catch (error) {
+                    console.error(error as object, `Failed to read settings from ${file.get_path()}`);
+                    showImportError(error instanceof Error ? error.message : String(error));
+                    return;
+                }
+                confirmImport(parsed);
+            });
+        });
+
         // Set up change tracking for editorLocation
         editorLocationEntry.connect('changed', () => {
             settingsChanged.add('editor-location');
@@ -197,6 +781,7 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
         setupChangeTracking(newWindowSwitch, 'new-window');
         setupChangeTracking(debug, 'debug');
         setupChangeTracking(preferWorkspaceFile, 'prefer-workspace-file');
+        setupChangeTracking(unifiedEditorView, 'unified-editor-view');
         setupChangeTracking(cleanupSwitch, 'cleanup-orphaned-workspaces');
 
         // Track changes for entry rows - ensure we track the actual entry widgets
@@ -237,6 +822,13 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
             Gio.SettingsBindFlags.DEFAULT
         );
 
+        _settings.bind(
+            'unified-editor-view',
+            unifiedEditorView,
+            'active',
+            Gio.SettingsBindFlags.DEFAULT
+        );
+
         _settings.bind(
             'refresh-interval',
             refreshGroupEntry,
@@ -259,6 +851,7 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
             'active',
             Gio.SettingsBindFlags.DEFAULT
         );
+        updateOrphanRows();
 
         // Fix issue with nofail-workspaces binding (text entry vs array of strings)
         // First, initialize the entry with comma-separated string from the array
@@ -266,6 +859,15 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
         const nofailString = nofailArray.join(', ');
         nofailEntryWidget.set_text(nofailString);
 
+        // The Workspaces page edits the list too; keep the entry in step so closing the
+        // window doesn't write an outdated list back
+        _settings.connect('changed::nofail-workspaces', () => {
+            const current = _settings.get_strv('nofail-workspaces').join(', ');
+            if (nofailEntryWidget.get_text() !== current) {
+                nofailEntryWidget.set_text(current);
+            }
+        });
+
         // Track changes to the text field
         nofailEntryWidget.connect('changed', () => {
             settingsChanged.add('nofail-workspaces');
@@ -318,6 +920,7 @@ export default class VSCodeWorkspacesPreferences extends ExtensionPreferences {
         // Show the window
         // Add the page to the window
         window.add(page);
+        window.add(createWorkspacesPage(_settings, window));
 
         // Ensure settings are saved when the window is closed
         window.connect('close-request', () => {
@@ -0,0 +1,216 @@
+import Clutter from 'gi://Clutter';
+import St from 'gi://St';
+import * as ModalDialog from 'resource:///org/gnome/shell/ui/modalDialog.js';
+import { setScrollChild } from './compat.js';
+
+/**
+ * How the picked workspace should be opened; chosen with the modifiers held on Enter.
+ */
+export type QuickSwitcherMode = 'default' | 'new-window' | 'add';
+
+export interface QuickSwitcherItem {
+    id: string;
+    name: string;
+    detail: string;
+    favorite: boolean;
+}
+
+export interface QuickSwitcherOptions {
+    items: QuickSwitcherItem[]; // In the order to show them when nothing is typed
+    score: (query: string, item: QuickSwitcherItem) => number; // -1 hides the item
+    onActivate: (item: QuickSwitcherItem, mode: QuickSwitcherMode) => void;
+}
+
+const MAX_VISIBLE_RESULTS = 50;
+
+/**
+ * A centred, keyboard driven dialog for picking a workspace: type to filter, arrows to move,
+ * Enter to open (Shift+Enter for a new window, Ctrl+Enter to add to the current one).
+ */
+export class QuickSwitcher {
+    private _options: QuickSwitcherOptions;
+    private _dialog: ModalDialog.ModalDialog;
+    private _entry: St.Entry;
+    private _list: St.BoxLayout;
+    private _results: { item: QuickSwitcherItem; row: St.Button }[] = [];
+    private _selectedIndex: number = 0;
+
+    constructor(options: QuickSwitcherOptions) {
+        this._options = options;
+        this._dialog = new ModalDialog.ModalDialog({
+            destroyOnClose: true,
+            styleClass: 'quick-switcher-dialog',
+        });
+
+        this._entry = new St.Entry({
+            hint_text: 'Type to filter workspaces…',
+            style_class: 'quick-switcher-entry',
+            can_focus: true,
+            x_expand: true,
+        });
+        this._entry.clutter_text.connect('text-changed', () => this._update());
+        this._entry.clutter_text.connect(
+            'key-press-event',
+            (_actor: Clutter.Actor, event: Clutter.Event) => this._onKeyPress(event)
+        );
+
+        this._list = new St.BoxLayout({ vertical: true, style_class: 'quick-switcher-list' });
+        const scrollView = new St.ScrollView({
+            style_class: 'quick-switcher-scroll',
+            hscrollbar_policy: St.PolicyType.NEVER,
+            vscrollbar_policy: St.PolicyType.AUTOMATIC,
+        });
+        setScrollChild(scrollView, this._list);
+
+        const hint = new St.Label({
+            text: 'Enter to open · Shift+Enter in a new window · Ctrl+Enter to add to the current window',
+            style_class: 'quick-switcher-hint',
+        });
+
+        this._dialog.contentLayout.add_child(this._entry);
+        this._dialog.contentLayout.add_child(scrollView);
+        this._dialog.contentLayout.add_child(hint);
+        this._dialog.setButtons([
+            { label: 'Close', action: () => this._dialog.close(), key: Clutter.KEY_Escape },
+        ]);
+    }
+
+    open() {
+        this._update();
+        this._dialog.open();
+        this._dialog.setInitialKeyFocus(this._entry);
+    }
+
+    close() {
+        this._dialog.close();
+    }
+
+    private _update() {
+        const query = this._entry.get_text().trim();
+        let matches = this._options.items.map((item, order) => ({
+            item,
+            order,
+            score: query === '' ? 0 : this._options.score(query, item),
+        }));
+        if (query !== '') {
+            matches = matches.filter(match => match.score >= 0);
+        }
+
+        // Favorites first, then the best matches, then the original order
+        matches.sort(
+            (a, b) =>
+                Number(b.item.favorite) - Number(a.item.favorite) ||
+                b.score - a.score ||
+                a.order - b.order
+        );
+
+        this._list.destroy_all_children();
+        this._results = matches.slice(0, MAX_VISIBLE_RESULTS).map(({ item }) => ({
+            item,
+            row: this._createRow(item),
+        }));
+        this._results.forEach(result => this._list.add_child(result.row));
+
+        if (this._results.length === 0) {
+            this._list.add_child(
+                new St.Label({
+                    text: 'No matching workspaces',
+                    style_class: 'quick-switcher-empty',
+                })
+            );
+        }
+
+        this._select(0);
+    }
+
+    private _createRow(item: QuickSwitcherItem): St.Button {
+        const box = new St.BoxLayout({ vertical: false, x_expand: true });
+        if (item.favorite) {
+            box.add_child(
+                new St.Icon({
+                    icon_name: 'starred-symbolic',
+                    style_class: 'quick-switcher-favorite',
+                })
+            );
+        }
+        box.add_child(
+            new St.Label({
+                text: item.name,
+                style_class: 'quick-switcher-name',
+                y_align: Clutter.ActorAlign.CENTER,
+            })
+        );
+        box.add_child(
+            new St.Label({
+                text: item.detail,
+                style_class: 'quick-switcher-detail',
+                x_expand: true,
+                y_align: Clutter.ActorAlign.CENTER,
+            })
+        );
+
+        const row = new St.Button({
+            child: box,
+            style_class: 'quick-switcher-row',
+            x_expand: true,
+            can_focus: false,
+        });
+        row.connect('clicked', () => this._activate(item, 'default'));
+        return row;
+    }
+
+    private _select(index: number) {
+        if (this._results.length === 0) return;
+
+        this._results[this._selectedIndex]?.row.remove_style_pseudo_class('selected');
+        this._selectedIndex = (index + this._results.length) % this._results.length;
+
+        const row = this._results[this._selectedIndex].row;
+        row.add_style_pseudo_class('selected');
+
+        // Keep the selection in view while scrolling with the keyboard
+        const adjustment = this._list.vadjustment;
+        const box = row.get_allocation_box();
+        if (box.y1 < adjustment.value) {
+            adjustment.value = box.y1;
+        } else if (box.y2 > adjustment.value + adjustment.page_size) {
+            adjustment.value = box.y2 - adjustment.page_size;
+        }
+    }
+
+    private _onKeyPress(event: Clutter.Event): boolean {
+        const symbol = event.get_key_symbol();
+        const state = event.get_state();
+
+        switch (symbol) {
+            case Clutter.KEY_Up:
+                this._select(this._selectedIndex - 1);
+                return Clutter.EVENT_STOP;
+            case Clutter.KEY_Down:
+                this._select(this._selectedIndex + 1);
+                return Clutter.EVENT_STOP;
+            case Clutter.KEY_Return:
+            case Clutter.KEY_KP_Enter:
+            case Clutter.KEY_ISO_Enter: {
+                const result = this._results[this._selectedIndex];
+                if (!result) return Clutter.EVENT_STOP;
+
+                let mode: QuickSwitcherMode = 'default';
+                if (state & Clutter.ModifierType.CONTROL_MASK) {
+                    mode = 'add';
+                } else if (state & Clutter.ModifierType.SHIFT_MASK) {
+                    mode = 'new-window';
+                }
+                this._activate(result.item, mode);
+                return Clutter.EVENT_STOP;
+            }
+            default:
+                return Clutter.EVENT_PROPAGATE;
+        }
+    }
+
+    private _activate(item: QuickSwitcherItem, mode: QuickSwitcherMode) {
+        this._dialog.close();
+        this._options.onActivate(item, mode);
+    }
+}
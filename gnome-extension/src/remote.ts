@@ -0,0 +1,117 @@
+export type RemoteKind =
+    | 'ssh'
+    | 'dev-container'
+    | 'attached-container'
+    | 'wsl'
+    | 'codespaces'
+    | 'tunnel'
+    | 'docker'
+    | 'other';
+
+/**
+ * What we can tell about a remote workspace from its URI alone.
+ */
+export interface RemoteInfo {
+    kind: RemoteKind;
+    authority: string; // Decoded authority, e.g. "ssh-remote+myhost"
+    label: string; // Short host or container name for the menu
+    iconName: string;
+    path: string; // Path on the remote side
+}
+
+const REMOTE_ICONS: Record<RemoteKind, string> = {
+    ssh: 'network-server-symbolic',
+    'dev-container': 'package-x-generic-symbolic',
+    'attached-container': 'package-x-generic-symbolic',
+    wsl: 'computer-symbolic',
+    codespaces: 'weather-overcast-symbolic',
+    tunnel: 'network-wired-symbolic',
+    docker: 'package-x-generic-symbolic',
+    other: 'network-workgroup-symbolic',
+};
+
+const REMOTE_PREFIXES: [string, RemoteKind][] = [
+    ['ssh-remote', 'ssh'],
+    ['dev-container', 'dev-container'],
+    ['attached-container', 'attached-container'],
+    ['wsl', 'wsl'],
+    ['codespaces', 'codespaces'],
+    ['tunnel', 'tunnel'],
+];
+
+export function isRemoteUri(uri: string): boolean {
+    return uri.startsWith('vscode-remote://') || uri.startsWith('docker://');
+}
+
+/**
+ * Decodes a `vscode-remote://` or `docker://` URI. Returns null for local URIs.
+ */
+export function parseRemoteUri(uri: string): RemoteInfo | null {
+    const match = /^(vscode-remote|docker):\/\/([^/]*)(\/.*)?$/.exec(uri);
+    if (!match) return null;
+
+    const [, scheme, rawAuthority, rawPath] = match;
+    const authority = safeDecode(rawAuthority);
+    const path = safeDecode(rawPath ?? '/');
+
+    if (scheme === 'docker') {
+        return remoteInfo('docker', authority, authority, path);
+    }
+
+    // The authority is "<resolver>+<value>", e.g. "ssh-remote+myhost" or "wsl+Ubuntu"
+    const plus = authority.indexOf('+');
+    const resolver = plus >= 0 ? authority.slice(0, plus) : authority;
+    const value = plus >= 0 ? authority.slice(plus + 1) : '';
+    const kind = REMOTE_PREFIXES.find(([prefix]) => prefix === resolver)?.[1] ?? 'other';
+
+    return remoteInfo(kind, authority, describeAuthority(kind, value) || resolver, path);
+}
+
+function remoteInfo(kind: RemoteKind, authority: string, label: string, path: string): RemoteInfo {
+    return { kind, authority, label, iconName: REMOTE_ICONS[kind], path };
+}
+
+function describeAuthority(kind: RemoteKind, value: string): string {
+    // Container (and some SSH) authorities are hex encoded JSON or paths
+    const decoded = decodeHex(value);
+    let details: any = null;
+    if (decoded?.startsWith('{')) {
+        try {
+            details = JSON.parse(decoded);
+        } catch {
+            details = null;
+        }
+    }
+
+    switch (kind) {
+        case 'ssh':
+            return details?.hostName ?? value;
+        case 'dev-container': {
+            const hostPath: string = details?.hostPath ?? decoded ?? value;
+            return hostPath.split('/').filter(Boolean).pop() ?? hostPath;
+        }
+        case 'attached-container':
+            return (details?.containerName ?? decoded ?? value).replace(/^\//, '');
+        default:
+            return value;
+    }
+}
+
+function decodeHex(value: string): string | null {
+    if (value.length === 0 || value.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(value)) {
+        return null;
+    }
+    const bytes = new Uint8Array(value.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+    }
+    return new TextDecoder().decode(bytes);
+}
+
+function safeDecode(text: string): string {
+    try {
+        return decodeURIComponent(text);
+    } catch {
+        return text;
+    }
+}
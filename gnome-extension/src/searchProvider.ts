@@ -0,0 +1,116 @@
+import Gio from 'gi://Gio';
+import St from 'gi://St';
+import * as Main from 'resource:///org/gnome/shell/ui/main.js';
+
+export interface SearchCandidate {
+    id: string; // Workspace URI
+    name: string;
+    description: string;
+    createIcon: (size: number) => St.Icon;
+}
+
+export interface SearchProviderOptions {
+    id: string;
+    appInfo: () => Gio.AppInfo | null; // Shown as the heading of our results
+    candidates: () => SearchCandidate[];
+    score: (query: string, candidate: SearchCandidate) => number; // -1 for no match
+    maxResults: () => number;
+    onActivate: (id: string) => void;
+}
+
+/**
+ * Offers workspaces as results in the overview search, next to apps and files.
+ *
+ * Implements the in-process provider interface of GNOME Shell 45+; register it with
+ * `register()` and take it down again with `unregister()`.
+ */
+export class WorkspaceSearchProvider {
+    private _options: SearchProviderOptions;
+    private _candidates: Map<string, SearchCandidate> = new Map();
+    private _registered: boolean = false;
+
+    constructor(options: SearchProviderOptions) {
+        this._options = options;
+    }
+
+    get id(): string {
+        return this._options.id;
+    }
+
+    get appInfo(): Gio.AppInfo | null {
+        return this._options.appInfo();
+    }
+
+    get canLaunchSearch(): boolean {
+        return false;
+    }
+
+    register() {
+        if (this._registered) return;
+        Main.overview.searchController.addProvider(this);
+        this._registered = true;
+    }
+
+    unregister() {
+        if (!this._registered) return;
+        Main.overview.searchController.removeProvider(this);
+        this._registered = false;
+        this._candidates.clear();
+    }
+
+    getInitialResultSet(terms: string[], _cancellable?: Gio.Cancellable): Promise<string[]> {
+        this._candidates = new Map(
+            this._options.candidates().map(candidate => [candidate.id, candidate])
+        );
+        return Promise.resolve(this._match(Array.from(this._candidates.values()), terms));
+    }
+
+    getSubsearchResultSet(
+        previousResults: string[],
+        terms: string[],
+        _cancellable?: Gio.Cancellable
+    ): Promise<string[]> {
+        // Narrowing the search can only drop results, so only look at the previous ones
+        const previous = previousResults
+            .map(id => this._candidates.get(id))
+            .filter((candidate): candidate is SearchCandidate => candidate !== undefined);
+        return Promise.resolve(this._match(previous, terms));
+    }
+
+    getResultMetas(ids: string[], _cancellable?: Gio.Cancellable) {
+        return Promise.resolve(
+            ids
+                .map(id => this._candidates.get(id))
+                .filter((candidate): candidate is SearchCandidate => candidate !== undefined)
+                .map(candidate => ({
+                    id: candidate.id,
+                    name: candidate.name,
+                    description: candidate.description,
+                    createIcon: (size: number) => candidate.createIcon(size),
+                }))
+        );
+    }
+
+    filterResults(results: string[], maxResults: number): string[] {
+        return results.slice(0, Math.min(maxResults, this._options.maxResults()));
+    }
+
+    activateResult(id: string, _terms: string[]) {
+        this._options.onActivate(id);
+    }
+
+    launchSearch(_terms: string[]) {
+        // canLaunchSearch is false, so the shell never calls this
+    }
+
+    private _match(candidates: SearchCandidate[], terms: string[]): string[] {
+        const query = terms.join(' ').trim();
+        if (query === '') return [];
+
+        return candidates
+            .map(candidate => ({ candidate, score: this._options.score(query, candidate) }))
+            .filter(match => match.score >= 0)
+            .sort((a, b) => b.score - a.score)
+            .map(match => match.candidate.id);
+    }
+}
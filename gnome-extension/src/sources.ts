@@ -0,0 +1,265 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+export type WorkspaceSourceId = 'workspace-storage' | 'global-storage';
+
+/**
+ * A workspace reported by a source, before it is merged into the core's workspace cache.
+ */
+export interface SourceWorkspace {
+    uri: string;
+    lastAccessed: number; // 0 when the source cannot tell when, or in which order, it was opened
+    source: WorkspaceSourceId;
+}
+
+/**
+ * Something that can tell us which workspaces an editor has opened.
+ *
+ * The workspaceStorage scan lives in the core because it is batched on idle; every other
+ * source implements this interface and is merged in once that scan completes.
+ */
+export interface WorkspaceSource {
+    readonly id: WorkspaceSourceId;
+    collect(workspaceStoragePath: string): SourceWorkspace[];
+}
+
+const RECENTLY_OPENED_KEY = 'history.recentlyOpenedPathsList';
+const SQLITE_TIMEOUT_S = 5;
+const RANK_STEP_MS = 1000;
+
+interface RecentlyOpenedList {
+    modified: number; // Unix time in milliseconds of the file it was read from
+    uris: string[]; // Most recently opened first
+}
+
+/**
+ * Reads the editor's own recently-opened history from `User/globalStorage`: the list in
+ * `state.vscdb` that current editors keep, plus `storage.json`, which the Nautilus script uses.
+ *
+ * The recently-opened lists are ordered but carry no times, so each entry gets the time the
+ * list was last written, minus a second per place. That keeps the editor's own order when
+ * `preferred-workspace-source` lets this source decide the ranking.
+ */
+export class GlobalStorageSource implements WorkspaceSource {
+    readonly id = 'global-storage' as const;
+    private _log: (message: string) => void;
+    private _onUpdated: (() => void) | null;
+    private _sqlitePath: string | null = GLib.find_program_in_path('sqlite3');
+    private _recentlyOpened: Map<string, RecentlyOpenedList> = new Map(); // By globalStorage path
+    private _reading: Set<string> = new Set();
+
+    /**
+     * `state.vscdb` is read in the background; `onUpdated` is called when that brings a
+     * different list than the last call to `collect` returned.
+     */
+    constructor(log: (message: string) => void, onUpdated?: () => void) {
+        this._log = log;
+        this._onUpdated = onUpdated ?? null;
+    }
+
+    collect(workspaceStoragePath: string): SourceWorkspace[] {
+        // workspaceStorage and globalStorage are siblings under <Editor>/User
+        const globalStorageDir = GLib.build_filenamev([
+            GLib.path_get_dirname(workspaceStoragePath),
+            'globalStorage',
+        ]);
+
+        const workspaces: SourceWorkspace[] = [];
+        const add = (uri: string, lastAccessed: number) => {
+            if (!workspaces.some(workspace => workspace.uri === uri)) {
+                workspaces.push({ uri, lastAccessed, source: this.id });
+            }
+        };
+        const addList = ({ modified, uris }: RecentlyOpenedList) => {
+            uris.forEach((uri, index) => add(uri, Math.max(modified - index * RANK_STEP_MS, 1)));
+        };
+
+        const recentlyOpened = this._getRecentlyOpened(globalStorageDir);
+        if (recentlyOpened) {
+            addList(recentlyOpened);
+        }
+
+        const storage = this._readStorageJson(globalStorageDir);
+        if (storage) {
+            addList(storage.recentlyOpened);
+            // Open windows, backups and profiles are in no particular order, so these rank
+            // below every workspace with a real access time
+            storage.others.forEach(uri => add(uri, 0));
+        }
+
+        this._log(`Found ${workspaces.length} entries in globalStorage`);
+        return workspaces;
+    }
+
+    private _getRecentlyOpened(globalStorageDir: string): RecentlyOpenedList | undefined {
+        const database = Gio.File.new_for_path(
+            GLib.build_filenamev([globalStorageDir, 'state.vscdb'])
+        );
+        const modified = getModified(database);
+        const cached = this._recentlyOpened.get(globalStorageDir);
+
+        // The editor writes other state to the same file, so this only rereads, and the
+        // caller hears about it only if the list itself changed
+        if (modified > 0 && cached?.modified !== modified) {
+            this._readRecentlyOpened(globalStorageDir, database, modified);
+        }
+        return cached;
+    }
+
+    private _readRecentlyOpened(globalStorageDir: string, database: Gio.File, modified: number) {
+        if (!this._sqlitePath || this._reading.has(globalStorageDir)) return;
+
+        let subprocess: Gio.Subprocess;
+        try {
+            subprocess = Gio.Subprocess.new(
+                [
+                    this._sqlitePath,
+                    '-readonly',
+                    database.get_path()!,
+                    `SELECT value FROM ItemTable WHERE key = '${RECENTLY_OPENED_KEY}'`,
+                ],
+                Gio.SubprocessFlags.STDOUT_PIPE | Gio.SubprocessFlags.STDERR_SILENCE
+            );
+        } catch (error) {
+            console.error(error as object, `Failed to run sqlite3 on ${database.get_path()}`);
+            return;
+        }
+        this._reading.add(globalStorageDir);
+
+        const cancellable = new Gio.Cancellable();
+        let timeoutId: number | null = GLib.timeout_add_seconds(
+            GLib.PRIORITY_DEFAULT,
+            SQLITE_TIMEOUT_S,
+            () => {
+                timeoutId = null;
+                subprocess.force_exit();
+                cancellable.cancel();
+                return GLib.SOURCE_REMOVE;
+            }
+        );
+
+        subprocess.communicate_utf8_async(null, cancellable, (_subprocess, res) => {
+            if (timeoutId) {
+                GLib.source_remove(timeoutId);
+            }
+            this._reading.delete(globalStorageDir);
+
+            let uris: string[] | null = null;
+            try {
+                const [, stdout] = subprocess.communicate_utf8_finish(res);
+                if (subprocess.get_if_exited() && subprocess.get_exit_status() === 0) {
+                    uris = parseRecentlyOpened(stdout ?? '');
+                }
+            } catch (error) {
+                this._log(
+                    `Failed to read ${RECENTLY_OPENED_KEY} from ${database.get_path()}: ${error}`
+                );
+            }
+            // Locked by the editor or timed out: the next collect tries again
+            if (!uris) return;
+
+            const previous = this._recentlyOpened.get(globalStorageDir);
+            this._recentlyOpened.set(globalStorageDir, { modified, uris });
+            if (previous ? previous.uris.join('\n') !== uris.join('\n') : uris.length > 0) {
+                this._onUpdated?.();
+            }
+        });
+    }
+
+    private _readStorageJson(
+        globalStorageDir: string
+    ): { recentlyOpened: RecentlyOpenedList; others: string[] } | null {
+        const storageFile = Gio.File.new_for_path(
+            GLib.build_filenamev([globalStorageDir, 'storage.json'])
+        );
+
+        if (!storageFile.query_exists(null)) {
+            this._log(`No storage.json found in ${globalStorageDir}`);
+            return null;
+        }
+
+        try {
+            const [, contents] = storageFile.load_contents(null);
+            const json = JSON.parse(new TextDecoder().decode(contents));
+            const { recentlyOpened, others } = this._extractUris(json);
+            return {
+                recentlyOpened: { modified: getModified(storageFile), uris: recentlyOpened },
+                others,
+            };
+        } catch (error) {
+            console.error(error as object, 'Failed to read globalStorage storage.json');
+            return null;
+        }
+    }
+
+    private _extractUris(json: any): { recentlyOpened: string[]; others: string[] } {
+        const recentlyOpened: string[] = [];
+        const others: string[] = [];
+        const push = (uris: string[], uri: unknown) => {
+            if (typeof uri === 'string' && uri !== '' && !uris.includes(uri)) {
+                uris.push(uri);
+            }
+        };
+        const pushWindow = (window: any) => {
+            if (!window) return;
+            push(others, window.folder);
+            push(others, window.workspace?.configPath);
+            push(others, window.workspaceIdentifier?.configURIPath);
+        };
+
+        // Legacy recently-opened list (VS Code < 1.64 kept it here rather than in state.vscdb)
+        for (const entry of json.openedPathsList?.entries ?? []) {
+            push(recentlyOpened, entry.folderUri);
+            push(recentlyOpened, entry.workspace?.configPath);
+        }
+        (json.openedPathsList?.workspaces3 ?? []).forEach((entry: any) =>
+            push(recentlyOpened, entry?.configURIPath ?? entry)
+        );
+        (json.openedPathsList?.folders2 ?? []).forEach((entry: any) =>
+            push(recentlyOpened, entry?.folderUri ?? entry)
+        );
+
+        // Windows that are open, or were open when the editor last quit
+        pushWindow(json.windowsState?.lastActiveWindow);
+        (json.windowsState?.openedWindows ?? []).forEach(pushWindow);
+
+        for (const folder of json.backupWorkspaces?.folders ?? []) {
+            push(others, folder.folderUri);
+        }
+        for (const workspace of json.backupWorkspaces?.workspaces ?? []) {
+            push(others, workspace.configURIPath);
+        }
+
+        Object.keys(json.profileAssociations?.workspaces ?? {}).forEach(uri => push(others, uri));
+
+        return { recentlyOpened, others };
+    }
+}
+
+/**
+ * Reads the folder and workspace URIs, newest first, from the value of
+ * `history.recentlyOpenedPathsList`. Recently opened files are left out.
+ */
+function parseRecentlyOpened(value: string): string[] {
+    if (value.trim() === '') return [];
+
+    const uris: string[] = [];
+    for (const entry of JSON.parse(value).entries ?? []) {
+        const uri = entry?.folderUri ?? entry?.workspace?.configPath;
+        if (typeof uri === 'string' && uri !== '' && !uris.includes(uri)) {
+            uris.push(uri);
+        }
+    }
+    return uris;
+}
+
+function getModified(file: Gio.File): number {
+    try {
+        const modified = file
+            .query_info('time::modified', Gio.FileQueryInfoFlags.NONE, null)
+            .get_modification_date_time();
+        return modified ? modified.to_unix() * 1000 : 0;
+    } catch (_error) {
+        return 0;
+    }
+}
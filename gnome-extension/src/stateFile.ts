@@ -0,0 +1,256 @@
+import Gio from 'gi://Gio';
+import { variant } from './variant.js';
+
+export const STATE_FORMAT = 'vscode-workspaces-state';
+export const STATE_VERSION = 1;
+
+/**
+ * Everything the extension keeps in gsettings, as one portable JSON document.
+ *
+ * Global settings are stored by key under `settings`. Settings that hold data about single
+ * workspaces are regrouped per workspace under `workspaces`, so a merge can combine them
+ * workspace by workspace.
+ */
+export interface ExtensionState {
+    format: typeof STATE_FORMAT;
+    version: number;
+    exportedAt: string; // ISO 8601
+    settings: Record<string, unknown>;
+    workspaces: Record<string, Record<string, unknown>>; // Workspace URI to its fields
+}
+
+/**
+ * A state file that passed validation, with the settings it will not apply.
+ */
+export interface ParsedState {
+    state: ExtensionState;
+    skipped: string[]; // Unknown or machine-local settings, e.g. from a newer version of the extension
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * How per-workspace settings map to fields of a `workspaces` entry. List keys hold the
+ * workspaces with the flag set; dictionary keys hold a value per workspace.
+ */
+const WORKSPACE_FIELDS: { field: string; key: string; kind: 'flag' | 'value' }[] = [
+    { field: 'favorite', key: 'favorite-workspaces', kind: 'flag' },
+    { field: 'pinned', key: 'pinned-workspaces', kind: 'flag' },
+    { field: 'tags', key: 'workspace-tags', kind: 'value' },
+    { field: 'name', key: 'workspace-names', kind: 'value' },
+    { field: 'override', key: 'workspace-overrides', kind: 'value' },
+    { field: 'openCount', key: 'workspace-open-counts', kind: 'value' },
+];
+
+// Settings that only make sense on this machine, like storage paths; never exported or imported
+const LOCAL_KEYS = ['orphan-first-seen'];
+
+/**
+ * Collects the current value of every key in the schema, except the machine-local ones.
+ */
+export function exportState(settings: Gio.Settings): ExtensionState {
+    const workspaceKeys = new Set(WORKSPACE_FIELDS.map(({ key }) => key));
+    const state: ExtensionState = {
+        format: STATE_FORMAT,
+        version: STATE_VERSION,
+        exportedAt: new Date().toISOString(),
+        settings: {},
+        workspaces: {},
+    };
+
+    for (const key of settings.settings_schema.list_keys().sort()) {
+        if (!workspaceKeys.has(key) && !LOCAL_KEYS.includes(key)) {
+            state.settings[key] = settings.get_value(key).deepUnpack();
+        }
+    }
+
+    for (const { field, key, kind } of WORKSPACE_FIELDS) {
+        if (kind === 'flag') {
+            for (const uri of settings.get_strv(key)) {
+                state.workspaces[uri] = { ...state.workspaces[uri], [field]: true };
+            }
+        } else {
+            const dict = settings.get_value(key).deepUnpack() as Record<string, unknown>;
+            for (const [uri, value] of Object.entries(dict)) {
+                state.workspaces[uri] = { ...state.workspaces[uri], [field]: value };
+            }
+        }
+    }
+
+    return state;
+}
+
+/**
+ * Parses and validates a state file without applying anything. Throws an Error listing every
+ * problem found.
+ */
+export function parseState(text: string, settings: Gio.Settings): ParsedState {
+    let state: unknown;
+    try {
+        state = JSON.parse(text);
+    } catch (_error) {
+        throw new Error('The file is not valid JSON');
+    }
+
+    if (!isObject(state) || state.format !== STATE_FORMAT) {
+        throw new Error('The file is not a VSCode Workspaces export');
+    }
+    const version = state.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error('The file has no valid format version');
+    }
+    if (version > STATE_VERSION) {
+        throw new Error(
+            `The file was made by a newer version of the extension (format ${version})`
+        );
+    }
+    if (!isObject(state.settings) || !isObject(state.workspaces)) {
+        throw new Error('The file is missing its settings or workspaces');
+    }
+
+    const schema = settings.settings_schema;
+    const schemaKeys = new Set(schema.list_keys());
+    const workspaceKeys = new Set(WORKSPACE_FIELDS.map(({ key }) => key));
+    const problems: string[] = [];
+    const skipped: string[] = [];
+
+    for (const [key, value] of Object.entries(state.settings)) {
+        if (!schemaKeys.has(key) || workspaceKeys.has(key) || LOCAL_KEYS.includes(key)) {
+            skipped.push(key);
+            continue;
+        }
+        const schemaKey = schema.get_key(key);
+        const type = schemaKey.get_value_type().dup_string();
+        if (!matchesType(type, value)) {
+            problems.push(`"${key}" should be of type ${type}`);
+        } else if (!schemaKey.range_check(variant(type, value))) {
+            problems.push(`"${key}" has a value that is out of range: ${JSON.stringify(value)}`);
+        }
+    }
+
+    for (const [uri, fields] of Object.entries(state.workspaces)) {
+        if (!isObject(fields)) {
+            problems.push(`Workspace ${uri} should be an object`);
+            continue;
+        }
+        for (const { field, key, kind } of WORKSPACE_FIELDS) {
+            const value = fields[field];
+            if (value === undefined) continue;
+
+            const type =
+                kind === 'flag'
+                    ? 'b'
+                    : dictValueType(schema.get_key(key).get_value_type().dup_string());
+            if (!matchesType(type, value)) {
+                problems.push(`"${field}" of workspace ${uri} should be of type ${type}`);
+            }
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new Error(problems.join('\n'));
+    }
+    // Every field applyState reads was checked above
+    return { state: state as unknown as ExtensionState, skipped };
+}
+
+/**
+ * Writes a validated state into the settings, all at once.
+ *
+ * `merge` takes the file's global settings and adds its workspace data to the current data;
+ * for a workspace in both, the file's values win. `replace` makes the settings match the file
+ * exactly, resetting keys it does not mention to their defaults.
+ */
+export function applyState(current: Gio.Settings, parsed: ParsedState, mode: ImportMode) {
+    const { state, skipped } = parsed;
+    const schema = current.settings_schema;
+    const workspaceKeys = new Set(WORKSPACE_FIELDS.map(({ key }) => key));
+
+    // A separate, delayed instance: listeners see one change instead of one per key, and the
+    // caller's instance keeps writing through
+    const settings = new Gio.Settings({ settings_schema: schema, path: current.path });
+    settings.delay();
+    try {
+        for (const key of schema.list_keys()) {
+            if (workspaceKeys.has(key) || LOCAL_KEYS.includes(key)) continue;
+
+            if (key in state.settings && !skipped.includes(key)) {
+                const type = schema.get_key(key).get_value_type().dup_string();
+                settings.set_value(key, variant(type, state.settings[key]));
+            } else if (mode === 'replace') {
+                settings.reset(key);
+            }
+        }
+
+        for (const { field, key, kind } of WORKSPACE_FIELDS) {
+            const type = schema.get_key(key).get_value_type().dup_string();
+            const entries = Object.entries(state.workspaces).filter(
+                ([, fields]) => fields[field] !== undefined
+            );
+
+            if (kind === 'flag') {
+                const flagged = new Set(mode === 'merge' ? settings.get_strv(key) : []);
+                for (const [uri, fields] of entries) {
+                    if (fields[field]) {
+                        flagged.add(uri);
+                    } else {
+                        flagged.delete(uri);
+                    }
+                }
+                settings.set_strv(key, Array.from(flagged));
+            } else {
+                const dict =
+                    mode === 'merge' ? { ...(settings.get_value(key).deepUnpack() as object) } : {};
+                for (const [uri, fields] of entries) {
+                    (dict as Record<string, unknown>)[uri] = fields[field];
+                }
+                settings.set_value(key, variant(type, dict));
+            }
+        }
+
+        settings.apply();
+    } catch (error) {
+        settings.revert();
+        throw error;
+    }
+}
+
+/**
+ * Checks a JSON value against a GVariant type string, for the types our schema uses.
+ */
+function matchesType(type: string, value: unknown): boolean {
+    switch (type) {
+        case 'b':
+            return typeof value === 'boolean';
+        case 's':
+            return typeof value === 'string';
+        case 'd':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'y':
+        case 'n':
+        case 'q':
+        case 'i':
+        case 'u':
+        case 'x':
+        case 't':
+            return Number.isInteger(value);
+    }
+
+    if (type.startsWith('a{s')) {
+        const valueType = dictValueType(type);
+        return isObject(value) && Object.values(value).every(item => matchesType(valueType, item));
+    }
+    if (type.startsWith('a')) {
+        return Array.isArray(value) && value.every(item => matchesType(type.slice(1), item));
+    }
+    return false;
+}
+
+// a{sas} -> as
+function dictValueType(type: string): string {
+    return type.slice(3, -1);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,33 @@
+/**
+ * Splits user input such as "rust, work,  cli" into a clean, de-duplicated tag list.
+ */
+export function parseTags(text: string): string[] {
+    const tags = text
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(tag => tag.length > 0);
+    return Array.from(new Set(tags));
+}
+
+/**
+ * Converts the unpacked `workspace-tags` (a{sas}) setting into a map of workspace URI to tags.
+ */
+export function unpackWorkspaceTags(
+    dict: Record<string, string[]> | null | undefined
+): Map<string, string[]> {
+    return new Map(Object.entries(dict ?? {}).filter(([, tags]) => tags.length > 0));
+}
+
+/**
+ * Converts a map of workspace URI to tags back into the a{sas} dictionary, dropping
+ * workspaces without tags.
+ */
+export function packWorkspaceTags(tags: Map<string, string[]>): Record<string, string[]> {
+    const dict: Record<string, string[]> = {};
+    for (const [uri, workspaceTags] of tags) {
+        if (workspaceTags.length > 0) {
+            dict[uri] = workspaceTags;
+        }
+    }
+    return dict;
+}
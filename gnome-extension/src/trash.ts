@@ -0,0 +1,111 @@
+import GLib from 'gi://GLib';
+import Gio from 'gi://Gio';
+
+/**
+ * A workspaceStorage entry that is sitting in the GNOME trash.
+ */
+export interface TrashedWorkspace {
+    trashFile: Gio.File; // trash:///<name>
+    origPath: string; // Where it lived before it was trashed
+    deletedAt: GLib.DateTime | null;
+    uri: string | null; // Workspace it belonged to, read from its workspace.json
+}
+
+const TRASH_ATTRIBUTES = 'standard::name,trash::orig-path,trash::deletion-date';
+
+/**
+ * Lists trashed entries whose original location was one of `storageDirs`, newest first.
+ */
+export function listTrashedWorkspaces(
+    storageDirs: string[],
+    limit: number,
+    callback: (workspaces: TrashedWorkspace[]) => void
+) {
+    const trash = Gio.File.new_for_uri('trash:///');
+    const found: TrashedWorkspace[] = [];
+
+    const finish = () => {
+        found.sort((a, b) => (b.deletedAt?.to_unix() ?? 0) - (a.deletedAt?.to_unix() ?? 0));
+        const newest = found.slice(0, limit);
+        newest.forEach(workspace => {
+            workspace.uri = readWorkspaceUri(workspace.trashFile);
+        });
+        callback(newest);
+    };
+
+    trash.enumerate_children_async(
+        TRASH_ATTRIBUTES,
+        Gio.FileQueryInfoFlags.NONE,
+        GLib.PRIORITY_LOW,
+        null,
+        (_trash, res) => {
+            let enumerator: Gio.FileEnumerator;
+            try {
+                enumerator = trash.enumerate_children_finish(res);
+            } catch (error) {
+                console.error(error as object, 'Failed to list the trash');
+                callback([]);
+                return;
+            }
+
+            const nextBatch = () => {
+                enumerator.next_files_async(
+                    50,
+                    GLib.PRIORITY_LOW,
+                    null,
+                    (_enumerator, batchRes) => {
+                        let infos: Gio.FileInfo[];
+                        try {
+                            infos = enumerator.next_files_finish(batchRes);
+                        } catch (error) {
+                            console.error(error as object, 'Failed to read the trash');
+                            infos = [];
+                        }
+
+                        for (const info of infos) {
+                            const origPath = info.get_attribute_byte_string('trash::orig-path');
+                            if (!origPath || !storageDirs.includes(GLib.path_get_dirname(origPath)))
+                                continue;
+
+                            found.push({
+                                trashFile: enumerator.get_child(info),
+                                origPath,
+                                deletedAt: info.get_deletion_date(),
+                                uri: null,
+                            });
+                        }
+
+                        if (infos.length > 0) {
+                            nextBatch();
+                        } else {
+                            enumerator.close(null);
+                            finish();
+                        }
+                    }
+                );
+            };
+            nextBatch();
+        }
+    );
+}
+
+/**
+ * Moves a trashed entry back to where it was. Throws if the original location is taken.
+ */
+export function restoreTrashedWorkspace(workspace: TrashedWorkspace) {
+    const destination = Gio.File.new_for_path(workspace.origPath);
+    if (destination.query_exists(null)) {
+        throw new Error(`${workspace.origPath} already exists`);
+    }
+    workspace.trashFile.move(destination, Gio.FileCopyFlags.NONE, null, null);
+}
+
+function readWorkspaceUri(trashFile: Gio.File): string | null {
+    try {
+        const [, contents] = trashFile.get_child('workspace.json').load_contents(null);
+        const json = JSON.parse(new TextDecoder().decode(contents));
+        return (json.folder || json.workspace) ?? null;
+    } catch {
+        return null;
+    }
+}
@@ -11,3 +11,16 @@ import '@girs/gnome-shell/ui/panelMenu';
 import '@girs/gnome-shell/ui/popupMenu';
 //import '@girs/gtk-4.0';
 //import '@girs/gdk-4.0';
+
+// InjectionManager ships with GNOME Shell 45 but is missing from the typings
+declare module 'resource:///org/gnome/shell/extensions/extension.js' {
+    export class InjectionManager {
+        overrideMethod<T extends object, K extends keyof T>(
+            prototype: T,
+            methodName: K,
+            createOverrideFunc: (originalMethod: T[K]) => T[K]
+        ): void;
+        restoreMethod<T extends object>(prototype: T, methodName: keyof T): void;
+        clear(): void;
+    }
+}
@@ -0,0 +1,17 @@
+import GLib from 'gi://GLib';
+import type Gio from 'gi://Gio';
+
+/**
+ * A GVariant as Gio's methods take it.
+ *
+ * gi://GLib and the GLib that Gio's typings import come from different typings versions, so a
+ * variant built with `new GLib.Variant` does not type-check where Gio expects one.
+ */
+export type GioVariant = Parameters<Gio.Settings['set_value']>[1];
+
+/**
+ * Builds a variant of GVariant type `type`, ready to hand to Gio.
+ */
+export function variant(type: string, value: unknown): GioVariant {
+    return new GLib.Variant(type, value) as unknown as GioVariant;
+}
@@ -0,0 +1,671 @@
+import Adw from 'gi://Adw';
+import Gio from 'gi://Gio';
+import GLib from 'gi://GLib';
+import Gtk from 'gi://Gtk';
+import { gettext as _ } from 'resource:///org/gnome/Shell/Extensions/js/extensions/prefs.js';
+import { KNOWN_EDITORS, isPackageInstalled } from './editors.js';
+import {
+    WorkspaceOverride,
+    isEmptyOverride,
+    packWorkspaceOverrides,
+    unpackWorkspaceOverrides,
+} from './overrides.js';
+import { GlobalStorageSource } from './sources.js';
+import { packWorkspaceTags, parseTags, unpackWorkspaceTags } from './tags.js';
+import { variant } from './variant.js';
+
+/**
+ * A workspace as the preferences window sees it: every editor storage entry for one URI,
+ * merged, plus workspaces that are only known from the settings.
+ */
+interface KnownWorkspace {
+    uri: string;
+    editors: string[];
+    storeDirs: Gio.File[]; // workspaceStorage entries, one per editor that opened it
+    lastOpened: number; // Unix time in milliseconds, 0 if no editor has opened it
+    nofail: boolean; // Marked in one of its workspace.json files
+}
+
+interface WorkspaceRow {
+    workspace: KnownWorkspace;
+    row: Adw.ExpanderRow;
+    size: number; // Bytes, -1 until measured
+    sync: () => void; // Updates the widgets from the settings
+}
+
+type PageSortMode = 'name' | 'recent' | 'size' | 'path' | 'editor';
+
+// Keep the order in sync with the labels of the sort row
+const PAGE_SORT_MODES: PageSortMode[] = ['name', 'recent', 'size', 'path', 'editor'];
+
+// Keep the order in sync with the labels of the window row
+const NEW_WINDOW_MODES = [undefined, true, false];
+
+const WORKSPACE_FILE_SUFFIX = '.code-workspace';
+
+/**
+ * Builds the "Workspaces" page, which lists every known workspace and edits its settings.
+ *
+ * Every change is a read-modify-write of the gsettings key involved, so the running extension
+ * rebuilds its menu right away and changes made from the menu meanwhile are not lost.
+ */
+export function createWorkspacesPage(
+    settings: Gio.Settings,
+    window: Adw.PreferencesWindow
+): Adw.PreferencesPage {
+    const page = new Adw.PreferencesPage({
+        title: _('Workspaces'),
+        iconName: 'folder-symbolic',
+    });
+
+    const controlsGroup = new Adw.PreferencesGroup({
+        title: _('Known Workspaces'),
+        description: _('Every workspace an editor has stored, plus pinned and favorite ones'),
+    });
+    page.add(controlsGroup);
+
+    const rescanButton = new Gtk.Button({
+        icon_name: 'view-refresh-symbolic',
+        valign: Gtk.Align.CENTER,
+        tooltip_text: _('Rescan'),
+        css_classes: ['flat'],
+    });
+    controlsGroup.set_header_suffix(rescanButton);
+
+    const searchEntry = new Gtk.SearchEntry({
+        placeholder_text: _('Search by name, path, editor or tag'),
+        hexpand: true,
+        margin_bottom: 6,
+    });
+    controlsGroup.add(searchEntry);
+
+    const sortRow = new Adw.ComboRow({
+        title: _('Sort By'),
+        model: Gtk.StringList.new([
+            _('Name'),
+            _('Last Opened'),
+            _('Storage Size'),
+            _('Path'),
+            _('Editor'),
+        ]),
+    });
+    controlsGroup.add(sortRow);
+
+    const listGroup = new Adw.PreferencesGroup();
+    page.add(listGroup);
+
+    const emptyRow = new Adw.ActionRow({ title: _('No workspaces found') });
+
+    let rows: WorkspaceRow[] = [];
+    let shownRows: Gtk.Widget[] = [];
+    let measureCancellable: Gio.Cancellable | null = null;
+
+    const displayName = (workspace: KnownWorkspace) =>
+        dictValue(settings, 'workspace-names', workspace.uri) ?? defaultName(workspace.uri);
+
+    const describe = (entry: WorkspaceRow) => {
+        const { workspace, size } = entry;
+        const lastOpened =
+            workspace.lastOpened > 0
+                ? GLib.DateTime.new_from_unix_local(
+                      Math.floor(workspace.lastOpened / 1000)
+                  )?.format('%x %X') ?? ''
+                : _('Never opened');
+        const editors =
+            workspace.editors.length > 0 ? workspace.editors.join(', ') : _('No editor storage');
+        const parts = [displayPath(workspace.uri), editors, lastOpened];
+        if (workspace.storeDirs.length > 0) {
+            parts.push(size >= 0 ? GLib.format_size(size) ?? '' : _('Measuring…'));
+        }
+        return parts.join(' · ');
+    };
+
+    const compare = (a: WorkspaceRow, b: WorkspaceRow): number => {
+        switch (PAGE_SORT_MODES[sortRow.get_selected()]) {
+            case 'recent':
+                return b.workspace.lastOpened - a.workspace.lastOpened;
+            case 'size':
+                return b.size - a.size;
+            case 'path':
+                return displayPath(a.workspace.uri).localeCompare(displayPath(b.workspace.uri));
+            case 'editor':
+                return (
+                    (a.workspace.editors[0] ?? '').localeCompare(b.workspace.editors[0] ?? '') ||
+                    displayName(a.workspace).localeCompare(displayName(b.workspace))
+                );
+            default:
+                return displayName(a.workspace).localeCompare(displayName(b.workspace));
+        }
+    };
+
+    const matches = (entry: WorkspaceRow, query: string): boolean => {
+        if (query === '') return true;
+        const tags = dictValue<string[]>(settings, 'workspace-tags', entry.workspace.uri) ?? [];
+        return [
+            displayName(entry.workspace),
+            displayPath(entry.workspace.uri),
+            ...entry.workspace.editors,
+            ...tags,
+        ].some(text => text.toLowerCase().includes(query));
+    };
+
+    const showRows = () => {
+        shownRows.forEach(row => listGroup.remove(row));
+
+        const query = searchEntry.get_text().trim().toLowerCase();
+        shownRows = rows
+            .filter(entry => matches(entry, query))
+            .sort(compare)
+            .map(entry => entry.row);
+        if (shownRows.length === 0) {
+            shownRows = [emptyRow];
+        }
+        shownRows.forEach(row => listGroup.add(row));
+    };
+
+    const confirmRemove = (entry: WorkspaceRow) => {
+        const dialog = new Adw.MessageDialog({
+            transient_for: window,
+            heading: _('Remove Workspace?'),
+            body: `${_('Its editor storage is moved to the trash and its favorite, pin, tags, name, launch override, open count and no-fail mark are cleared. The folder itself is not touched.')}\n\n${displayPath(entry.workspace.uri)}`,
+        });
+        dialog.add_response('cancel', _('Cancel'));
+        dialog.add_response('remove', _('Remove'));
+        dialog.set_response_appearance('remove', Adw.ResponseAppearance.DESTRUCTIVE);
+        dialog.set_default_response('cancel');
+        dialog.connect('response', (_dialog: Adw.MessageDialog, response: string) => {
+            if (response !== 'remove') return;
+
+            const { uri, storeDirs } = entry.workspace;
+            // The extension watches workspaceStorage, so the menu follows on its own
+            const failed = storeDirs.filter(storeDir => {
+                try {
+                    storeDir.trash(null);
+                    return false;
+                } catch (error) {
+                    console.error(
+                        error as object,
+                        `Failed to move ${storeDir.get_path()} to the trash`
+                    );
+                    return true;
+                }
+            });
+
+            setListed(settings, 'favorite-workspaces', uri, false);
+            setListed(settings, 'pinned-workspaces', uri, false);
+            setListed(settings, 'nofail-workspaces', defaultName(uri), false);
+            setWorkspaceTags(settings, uri, []);
+            setDictValue(settings, 'workspace-names', uri, null);
+            removeDictEntry(settings, 'workspace-overrides', 'a{sa{ss}}', uri);
+            removeDictEntry(settings, 'workspace-open-counts', 'a{si}', uri);
+
+            if (failed.length > 0) {
+                // Still listed by the editors whose storage is left, so keep the row to retry
+                entry.workspace.storeDirs = failed;
+                entry.sync();
+                window.add_toast(
+                    new Adw.Toast({
+                        title: `${_('Could not move to the trash:')} ${failed.map(storeDir => displayPath(storeDir.get_uri())).join(', ')}`,
+                        timeout: 0,
+                    })
+                );
+                return;
+            }
+
+            rows = rows.filter(other => other !== entry);
+            showRows();
+            window.add_toast(
+                new Adw.Toast({ title: `${displayName(entry.workspace)} ${_('removed')}` })
+            );
+        });
+        dialog.present();
+    };
+
+    const createRow = (workspace: KnownWorkspace): WorkspaceRow => {
+        const { uri } = workspace;
+        const row = new Adw.ExpanderRow({ use_markup: false });
+
+        const favoriteButton = new Gtk.ToggleButton({
+            icon_name: 'starred-symbolic',
+            valign: Gtk.Align.CENTER,
+            tooltip_text: _('Favorite'),
+            css_classes: ['flat'],
+        });
+        favoriteButton.connect('toggled', () => {
+            setListed(settings, 'favorite-workspaces', uri, favoriteButton.get_active());
+        });
+        row.add_suffix(favoriteButton);
+
+        const pinButton = new Gtk.ToggleButton({
+            icon_name: 'view-pin-symbolic',
+            valign: Gtk.Align.CENTER,
+            tooltip_text: _('Pin (always list it)'),
+            css_classes: ['flat'],
+        });
+        pinButton.connect('toggled', () => {
+            setListed(settings, 'pinned-workspaces', uri, pinButton.get_active());
+        });
+        row.add_suffix(pinButton);
+
+        const nameRow = new Adw.EntryRow({
+            title: _('Display Name (empty for the folder name)'),
+            showApplyButton: true,
+        });
+        nameRow.connect('apply', () => {
+            const name = nameRow.get_text().trim();
+            setDictValue(settings, 'workspace-names', uri, name === '' ? null : name);
+        });
+        row.add_row(nameRow);
+
+        const tagsRow = new Adw.EntryRow({
+            title: _('Tags (comma separated)'),
+            showApplyButton: true,
+        });
+        tagsRow.connect('apply', () => {
+            setWorkspaceTags(settings, uri, parseTags(tagsRow.get_text()));
+        });
+        row.add_row(tagsRow);
+
+        const editorRow = new Adw.EntryRow({
+            title: _('Editor binary (empty for default)'),
+            showApplyButton: true,
+        });
+        editorRow.connect('apply', () => {
+            setWorkspaceOverride(settings, uri, {
+                editor: editorRow.get_text().trim() || undefined,
+            });
+        });
+        row.add_row(editorRow);
+
+        const argsRow = new Adw.EntryRow({
+            title: _('Command line arguments (empty for global)'),
+            showApplyButton: true,
+        });
+        argsRow.connect('apply', () => {
+            setWorkspaceOverride(settings, uri, { args: argsRow.get_text().trim() || undefined });
+        });
+        row.add_row(argsRow);
+
+        const newWindowRow = new Adw.ComboRow({
+            title: _('Window'),
+            model: Gtk.StringList.new([
+                _('Use global setting'),
+                _('Always open a new window'),
+                _('Reuse an existing window'),
+            ]),
+        });
+        newWindowRow.connect('notify::selected', () => {
+            const newWindow = NEW_WINDOW_MODES[newWindowRow.get_selected()];
+            if (newWindow === workspaceOverride(settings, uri).newWindow) return;
+            setWorkspaceOverride(settings, uri, { newWindow });
+        });
+        row.add_row(newWindowRow);
+
+        const nofailRow = new Adw.SwitchRow({
+            title: _('No-fail'),
+            subtitle: _('Never remove it during orphaned workspace cleanup'),
+        });
+        nofailRow.connect('notify::active', () => {
+            const active = nofailRow.get_active();
+            if (active === isNoFail(settings, workspace)) return;
+
+            setListed(settings, 'nofail-workspaces', defaultName(uri), active);
+            // The extension only ever sets the flag, so clear it here
+            if (!active) {
+                workspace.nofail = false;
+                workspace.storeDirs.forEach(storeDir => clearNoFailFlag(storeDir));
+            }
+        });
+        row.add_row(nofailRow);
+
+        const removeRow = new Adw.ActionRow({
+            title: _('Remove'),
+            subtitle: _('Move its editor storage to the trash and forget it'),
+        });
+        const removeButton = new Gtk.Button({
+            icon_name: 'user-trash-symbolic',
+            valign: Gtk.Align.CENTER,
+            tooltip_text: _('Remove Workspace'),
+            css_classes: ['flat', 'error'],
+        });
+        removeRow.add_suffix(removeButton);
+        removeRow.set_activatable_widget(removeButton);
+        row.add_row(removeRow);
+
+        const entry: WorkspaceRow = {
+            workspace,
+            row,
+            size: -1,
+            sync: () => {
+                /* Set below */
+            },
+        };
+        removeButton.connect('clicked', () => confirmRemove(entry));
+
+        entry.sync = () => {
+            row.set_title(displayName(workspace));
+            row.set_subtitle(describe(entry));
+            favoriteButton.set_active(settings.get_strv('favorite-workspaces').includes(uri));
+            pinButton.set_active(settings.get_strv('pinned-workspaces').includes(uri));
+            nofailRow.set_active(isNoFail(settings, workspace));
+            // Don't throw away what is being typed
+            if (!isEditing(nameRow)) {
+                nameRow.set_text(dictValue(settings, 'workspace-names', uri) ?? '');
+            }
+            if (!isEditing(tagsRow)) {
+                tagsRow.set_text(
+                    (dictValue<string[]>(settings, 'workspace-tags', uri) ?? []).join(', ')
+                );
+            }
+            const override = workspaceOverride(settings, uri);
+            if (!isEditing(editorRow)) {
+                editorRow.set_text(override.editor ?? '');
+            }
+            if (!isEditing(argsRow)) {
+                argsRow.set_text(override.args ?? '');
+            }
+            newWindowRow.set_selected(NEW_WINDOW_MODES.indexOf(override.newWindow));
+        };
+        entry.sync();
+        return entry;
+    };
+
+    const measureSizes = (cancellable: Gio.Cancellable) => {
+        const jobs = rows.flatMap(entry =>
+            entry.workspace.storeDirs.map(storeDir => ({ entry, storeDir }))
+        );
+        let pending = jobs.length;
+
+        const onMeasured = (entry: WorkspaceRow, diskUsage: number) => {
+            entry.size = Math.max(entry.size, 0) + diskUsage;
+            entry.row.set_subtitle(describe(entry));
+
+            // Sizes arrive in any order, so only re-sort once they are all in
+            if (--pending === 0 && PAGE_SORT_MODES[sortRow.get_selected()] === 'size') {
+                showRows();
+            }
+        };
+
+        for (const { entry, storeDir } of jobs) {
+            // The typings lack the async disk usage methods
+            (storeDir as any).measure_disk_usage_async(
+                Gio.FileMeasureFlags.NONE,
+                GLib.PRIORITY_LOW,
+                cancellable,
+                null,
+                (_file: Gio.File, res: Gio.AsyncResult) => {
+                    if (cancellable.is_cancelled()) return;
+                    let diskUsage = 0;
+                    try {
+                        [, diskUsage] = storeDir.measure_disk_usage_finish(res);
+                    } catch (error) {
+                        console.error(error as object, `Failed to measure ${storeDir.get_path()}`);
+                    }
+                    onMeasured(entry, diskUsage);
+                }
+            );
+        }
+    };
+
+    const rescan = () => {
+        measureCancellable?.cancel();
+        measureCancellable = new Gio.Cancellable();
+
+        rows = collectWorkspaces(settings).map(createRow);
+        showRows();
+        measureSizes(measureCancellable);
+    };
+
+    // Also changed from the panel menu and the General page while this window is open
+    const syncRows = () => rows.forEach(entry => entry.sync());
+    for (const key of [
+        'favorite-workspaces',
+        'pinned-workspaces',
+        'nofail-workspaces',
+        'workspace-tags',
+        'workspace-names',
+        'workspace-overrides',
+    ]) {
+        settings.connect(`changed::${key}`, syncRows);
+    }
+    settings.connect('changed::pinned-workspaces', () => {
+        // Newly pinned workspaces need a row of their own
+        const known = new Set(rows.map(entry => entry.workspace.uri));
+        if (settings.get_strv('pinned-workspaces').some(uri => !known.has(uri))) {
+            rescan();
+        }
+    });
+
+    searchEntry.connect('search-changed', showRows);
+    sortRow.connect('notify::selected', showRows);
+    rescanButton.connect('clicked', rescan);
+    window.connect('close-request', () => {
+        measureCancellable?.cancel();
+        return false;
+    });
+
+    rescan();
+    return page;
+}
+
+/**
+ * Reads every installed editor's workspaceStorage, and its recently opened history if that
+ * source is enabled, then adds the pinned and favorite workspaces none of them know.
+ */
+function collectWorkspaces(settings: Gio.Settings): KnownWorkspace[] {
+    const workspaces = new Map<string, KnownWorkspace>();
+    const getWorkspace = (uri: string) => {
+        let workspace = workspaces.get(uri);
+        if (!workspace) {
+            workspace = { uri, editors: [], storeDirs: [], lastOpened: 0, nofail: false };
+            workspaces.set(uri, workspace);
+        }
+        return workspace;
+    };
+    const addEditor = (workspace: KnownWorkspace, editor: string) => {
+        if (!workspace.editors.includes(editor)) {
+            workspace.editors.push(editor);
+        }
+    };
+
+    const globalStorage = settings.get_boolean('use-global-storage')
+        ? new GlobalStorageSource(() => {
+              /* Missing history is normal */
+          })
+        : null;
+
+    for (const editor of KNOWN_EDITORS) {
+        if (!GLib.file_test(editor.workspacePath, GLib.FileTest.IS_DIR)) continue;
+        if (editor.package && !isPackageInstalled(editor.package)) continue;
+
+        try {
+            const storageDir = Gio.File.new_for_path(editor.workspacePath);
+            const enumerator = storageDir.enumerate_children(
+                'standard::name,standard::type',
+                Gio.FileQueryInfoFlags.NONE,
+                null
+            );
+            let info: Gio.FileInfo | null;
+            while ((info = enumerator.next_file(null)) !== null) {
+                if (info.get_file_type() !== Gio.FileType.DIRECTORY) continue;
+
+                const storeDir = enumerator.get_child(info);
+                const json = readWorkspaceJson(storeDir);
+                const uri = json?.folder ?? json?.workspace;
+                if (typeof uri !== 'string' || uri === '') continue;
+
+                const workspace = getWorkspace(uri);
+                addEditor(workspace, editor.name);
+                workspace.storeDirs.push(storeDir);
+                workspace.lastOpened = Math.max(workspace.lastOpened, lastModified(storeDir));
+                workspace.nofail ||= json.nofail === true;
+            }
+            enumerator.close(null);
+        } catch (error) {
+            console.error(error as object, `Failed to read ${editor.workspacePath}`);
+        }
+
+        for (const { uri, lastAccessed } of globalStorage?.collect(editor.workspacePath) ?? []) {
+            const workspace = getWorkspace(uri);
+            addEditor(workspace, editor.name);
+            workspace.lastOpened = Math.max(workspace.lastOpened, lastAccessed);
+        }
+    }
+
+    for (const uri of [
+        ...settings.get_strv('pinned-workspaces'),
+        ...settings.get_strv('favorite-workspaces'),
+    ]) {
+        getWorkspace(uri);
+    }
+
+    return Array.from(workspaces.values());
+}
+
+function isEditing(row: Adw.EntryRow): boolean {
+    return (row.get_state_flags() & Gtk.StateFlags.FOCUS_WITHIN) !== 0;
+}
+
+function readWorkspaceJson(storeDir: Gio.File): any {
+    const file = storeDir.get_child('workspace.json');
+    if (!file.query_exists(null)) return null;
+    try {
+        const [, contents] = file.load_contents(null);
+        return JSON.parse(new TextDecoder().decode(contents));
+    } catch (error) {
+        console.error(error as object, `Failed to parse ${file.get_path()}`);
+        return null;
+    }
+}
+
+// Same rule as the extension: state.vscdb is rewritten whenever the workspace is used
+function lastModified(storeDir: Gio.File): number {
+    for (const candidate of [storeDir.get_child('state.vscdb'), storeDir]) {
+        try {
+            const modified = candidate
+                .query_info('time::modified', Gio.FileQueryInfoFlags.NONE, null)
+                .get_modification_date_time();
+            if (modified) return modified.to_unix() * 1000;
+        } catch (_error) {
+            continue;
+        }
+    }
+    return 0;
+}
+
+function clearNoFailFlag(storeDir: Gio.File) {
+    const json = readWorkspaceJson(storeDir);
+    if (!json || !('nofail' in json)) return;
+
+    delete json.nofail;
+    try {
+        storeDir
+            .get_child('workspace.json')
+            .replace_contents(
+                new TextEncoder().encode(JSON.stringify(json, null, 2)),
+                null,
+                false,
+                Gio.FileCreateFlags.NONE,
+                null
+            );
+    } catch (error) {
+        console.error(error as object, `Failed to update workspace.json in ${storeDir.get_path()}`);
+    }
+}
+
+// The nofail list holds workspace names, like the General page's entry
+function isNoFail(settings: Gio.Settings, workspace: KnownWorkspace): boolean {
+    return (
+        workspace.nofail ||
+        settings.get_strv('nofail-workspaces').includes(defaultName(workspace.uri))
+    );
+}
+
+function defaultName(uri: string): string {
+    const name = GLib.path_get_basename(decodeURIComponent(uri));
+    return name.endsWith(WORKSPACE_FILE_SUFFIX)
+        ? name.slice(0, -WORKSPACE_FILE_SUFFIX.length)
+        : name;
+}
+
+function displayPath(uri: string): string {
+    return uri.startsWith('file://')
+        ? decodeURIComponent(uri).replace('file://', '').replace(GLib.get_home_dir(), '~')
+        : decodeURIComponent(uri);
+}
+
+function setListed(settings: Gio.Settings, key: string, item: string, listed: boolean) {
+    const items = settings.get_strv(key);
+    if (items.includes(item) === listed) return;
+    settings.set_strv(key, listed ? [...items, item] : items.filter(other => other !== item));
+}
+
+function dictValue<T = string>(settings: Gio.Settings, key: string, uri: string): T | undefined {
+    return (settings.get_value(key).deepUnpack() as Record<string, T>)[uri];
+}
+
+function setDictValue(settings: Gio.Settings, key: string, uri: string, value: string | null) {
+    const dict = { ...(settings.get_value(key).deepUnpack() as Record<string, string>) };
+    if ((dict[uri] ?? null) === value) return;
+
+    if (value === null) {
+        delete dict[uri];
+    } else {
+        dict[uri] = value;
+    }
+    settings.set_value(key, variant('a{ss}', dict));
+}
+
+function workspaceOverride(settings: Gio.Settings, uri: string): WorkspaceOverride {
+    return readWorkspaceOverrides(settings).get(uri) ?? {};
+}
+
+function readWorkspaceOverrides(settings: Gio.Settings): Map<string, WorkspaceOverride> {
+    return unpackWorkspaceOverrides(
+        settings.get_value('workspace-overrides').deepUnpack() as Record<
+            string,
+            Record<string, string>
+        >
+    );
+}
+
+// Undefined values go back to the global settings
+function setWorkspaceOverride(
+    settings: Gio.Settings,
+    uri: string,
+    changes: Partial<WorkspaceOverride>
+) {
+    const overrides = readWorkspaceOverrides(settings);
+    const override = { ...(overrides.get(uri) ?? {}), ...changes };
+    if (isEmptyOverride(override)) {
+        overrides.delete(uri);
+    } else {
+        overrides.set(uri, override);
+    }
+    settings.set_value(
+        'workspace-overrides',
+        variant('a{sa{ss}}', packWorkspaceOverrides(overrides))
+    );
+}
+
+function removeDictEntry(settings: Gio.Settings, key: string, type: string, uri: string) {
+    const dict = { ...(settings.get_value(key).deepUnpack() as Record<string, unknown>) };
+    if (!(uri in dict)) return;
+
+    delete dict[uri];
+    settings.set_value(key, variant(type, dict));
+}
+
+function setWorkspaceTags(settings: Gio.Settings, uri: string, tags: string[]) {
+    const workspaceTags = unpackWorkspaceTags(
+        settings.get_value('workspace-tags').deepUnpack() as Record<string, string[]>
+    );
+    if (tags.length === 0 && !workspaceTags.has(uri)) return;
+
+    if (tags.length > 0) {
+        workspaceTags.set(uri, tags);
+    } else {
+        workspaceTags.delete(uri);
+    }
+    settings.set_value('workspace-tags', variant('a{sas}', packWorkspaceTags(workspaceTags)));
+}